@@ -0,0 +1,134 @@
+import type { HttpAuth, HttpDigestAuth, HttpHeaders } from './types/http-request';
+import { createHash, randomBytes } from 'node:crypto';
+
+/* Resources
+https://datatracker.ietf.org/doc/html/rfc7617
+https://datatracker.ietf.org/doc/html/rfc6750
+https://datatracker.ietf.org/doc/html/rfc7616
+*/
+
+const DIGEST_ALGORITHMS = ['MD5', 'MD5-sess', 'SHA-256', 'SHA-256-sess'];
+
+interface DigestChallenge {
+  realm: string;
+  nonce: string;
+  opaque: string | null;
+  algorithm: string;
+  qop: 'auth' | null;
+  nonceCount: number;
+}
+
+/* challenges are kept per auth object and origin so nonce counts carry over between requests */
+const digestChallenges = new WeakMap<HttpDigestAuth, Map<string, DigestChallenge>>();
+
+function getDigestChallenges(auth: HttpDigestAuth): Map<string, DigestChallenge> {
+  let challenges = digestChallenges.get(auth);
+  if (!challenges) {
+    challenges = new Map();
+    digestChallenges.set(auth, challenges);
+  }
+  return challenges;
+}
+
+function getHeaderValues(headers: HttpHeaders, name: string): string[] {
+  const values: string[] = [];
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() !== name || typeof value === 'undefined') continue;
+    values.push(...(Array.isArray(value) ? value : [String(value)]));
+  }
+  return values;
+}
+
+function quote(str: string): string {
+  return `"${str.replace(/(["\\])/g, '\\$1')}"`;
+}
+
+/* parameters end where the next challenge's scheme starts */
+function parseDigestChallenge(header: string): DigestChallenge | null {
+  const scheme = /(?:^|[\s,])digest\s+/i.exec(header);
+  if (!scheme) return null;
+  const params: Record<string, string> = {};
+  const regex = /([\w-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^\s,]+))/g;
+  regex.lastIndex = scheme.index + scheme[0].length;
+  let lastIndex = regex.lastIndex;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(header))) {
+    if (/[^\s,]/.test(header.slice(lastIndex, match.index))) break;
+    params[match[1].toLowerCase()] = typeof match[2] === 'string' ? match[2].replace(/\\(.)/g, '$1') : match[3];
+    lastIndex = regex.lastIndex;
+  }
+  const algorithm = DIGEST_ALGORITHMS.find((name) => name.toLowerCase() === (params.algorithm || 'MD5').toLowerCase());
+  const qop = typeof params.qop === 'string' ? params.qop.split(/\s*,\s*/) : null;
+  if (!params.realm || !params.nonce || !algorithm || (qop && !qop.includes('auth'))) return null;
+  return {
+    realm: params.realm,
+    nonce: params.nonce,
+    opaque: params.opaque || null,
+    algorithm,
+    qop: qop ? 'auth' : null,
+    nonceCount: 0,
+  };
+}
+
+function makeDigestAuthorization(auth: HttpDigestAuth, challenge: DigestChallenge, method: string, url: URL): string {
+  const hash = (str: string) =>
+    createHash(challenge.algorithm.startsWith('SHA-256') ? 'sha256' : 'md5')
+      .update(str)
+      .digest('hex');
+  const uri = url.pathname + url.search;
+  const cnonce = randomBytes(8).toString('hex');
+  const nonceCount = (++challenge.nonceCount).toString(16).padStart(8, '0');
+  const credentialsHash = hash(`${auth.username}:${challenge.realm}:${auth.password}`);
+  const ha1 = challenge.algorithm.endsWith('-sess')
+    ? hash(`${credentialsHash}:${challenge.nonce}:${cnonce}`)
+    : credentialsHash;
+  const ha2 = hash(`${method}:${uri}`);
+  const response = challenge.qop
+    ? hash(`${ha1}:${challenge.nonce}:${nonceCount}:${cnonce}:${challenge.qop}:${ha2}`)
+    : hash(`${ha1}:${challenge.nonce}:${ha2}`);
+  const params = [
+    `username=${quote(auth.username)}`,
+    `realm=${quote(challenge.realm)}`,
+    `nonce=${quote(challenge.nonce)}`,
+    `uri=${quote(uri)}`,
+    `algorithm=${challenge.algorithm}`,
+    `response=${quote(response)}`,
+  ];
+  if (challenge.qop) params.push(`qop=${challenge.qop}`, `nc=${nonceCount}`, `cnonce=${quote(cnonce)}`);
+  if (challenge.opaque !== null) params.push(`opaque=${quote(challenge.opaque)}`);
+  return `Digest ${params.join(', ')}`;
+}
+
+/**
+ * Returns the Authorization header to send upfront; for Digest only once a challenge from the same origin has been
+ * answered
+ */
+export async function getAuthorization(auth: HttpAuth, method: string, url: URL): Promise<string | null> {
+  switch (auth.type) {
+    case 'basic':
+      return `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}`;
+    case 'bearer':
+      return `Bearer ${typeof auth.token === 'function' ? await auth.token() : auth.token}`;
+    case 'digest': {
+      const challenge = getDigestChallenges(auth).get(url.origin);
+      return challenge ? makeDigestAuthorization(auth, challenge, method, url) : null;
+    }
+    default:
+      throw new TypeError(`Invalid auth type: ${(auth as { type: unknown }).type}`);
+  }
+}
+
+/**
+ * Returns the Authorization header answering the Digest challenge of a 401 response or null when there is nothing
+ * to answer
+ */
+export function answerAuthChallenge(auth: HttpAuth, method: string, url: URL, headers: HttpHeaders): string | null {
+  if (auth.type !== 'digest') return null;
+  for (const header of getHeaderValues(headers, 'www-authenticate')) {
+    const challenge = parseDigestChallenge(header);
+    if (!challenge) continue;
+    getDigestChallenges(auth).set(url.origin, challenge);
+    return makeDigestAuthorization(auth, challenge, method, url);
+  }
+  return null;
+}
@@ -0,0 +1,59 @@
+import type { HttpCacheEntry, HttpCacheStore } from '../types/cache';
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+
+function isNotFound(err: unknown): boolean {
+  return !!err && typeof err === 'object' && (err as { code?: string }).code === 'ENOENT';
+}
+
+export class FileSystemCacheStore implements HttpCacheStore {
+  protected directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  protected getFilePath(key: string): string {
+    return path.join(this.directory, createHash('sha256').update(key).digest('hex') + '.json');
+  }
+
+  public async get(key: string): Promise<HttpCacheEntry | null> {
+    try {
+      const { body, ...entry } = JSON.parse(await fs.readFile(this.getFilePath(key), 'utf8'));
+      return { ...entry, body: Buffer.from(body, 'base64') };
+    } catch (err) {
+      if (isNotFound(err) || err instanceof SyntaxError) return null;
+      throw err;
+    }
+  }
+
+  public async set(key: string, entry: HttpCacheEntry) {
+    await fs.mkdir(this.directory, { recursive: true });
+    const filePath = this.getFilePath(key);
+    const tempPath = filePath + '.' + process.pid + '.tmp';
+    await fs.writeFile(tempPath, JSON.stringify({ ...entry, body: entry.body.toString('base64') }));
+    await fs.rename(tempPath, filePath);
+  }
+
+  public async delete(key: string) {
+    try {
+      await fs.unlink(this.getFilePath(key));
+    } catch (err) {
+      if (!isNotFound(err)) throw err;
+    }
+  }
+
+  public async clear() {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (err) {
+      if (isNotFound(err)) return;
+      throw err;
+    }
+    await Promise.all(
+      files.filter((file) => file.endsWith('.json')).map((file) => fs.unlink(path.join(this.directory, file)))
+    );
+  }
+}
@@ -0,0 +1,246 @@
+import type { HttpCacheEntry, HttpCacheOptions, HttpCacheStatus, HttpCacheStore } from '../types/cache';
+import type { Readable } from 'node:stream';
+import type { HttpHeaders, ResponseStream } from '../types/http-request';
+import { createHash } from 'node:crypto';
+import { pipeline } from 'node:stream';
+import { collectStreamToBuffer } from '../lib/collectStreamToBuffer';
+import { createLimitStream } from '../lib/createLimitStream';
+import { createReadableStream } from '../lib/createReadableStream';
+import { ResponseTooLargeError } from '../errors';
+import { MemoryCacheStore } from './memory-store';
+
+/* Resources
+https://www.rfc-editor.org/rfc/rfc9111
+https://developer.mozilla.org/en-US/docs/Web/HTTP/Caching
+*/
+
+const HEURISTICALLY_CACHEABLE_STATUSES = [200, 203, 204, 300, 301, 308, 404, 405, 410, 414, 501];
+const STREAM_CHUNK_SIZE = 64 * 1024;
+const CONDITIONAL_HEADERS = ['if-none-match', 'if-modified-since', 'if-match', 'if-unmodified-since'];
+
+type CacheControl = Record<string, string | true>;
+
+function getHeader(headers: HttpHeaders, name: string): string | undefined {
+  const lowerCaseName = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() !== lowerCaseName || typeof value === 'undefined') continue;
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return undefined;
+}
+
+function omitHeaders(headers: HttpHeaders, names: string[]): HttpHeaders {
+  const output: HttpHeaders = {};
+  for (const [key, value] of Object.entries(headers)) {
+    if (!names.includes(key.toLowerCase())) output[key] = value;
+  }
+  return output;
+}
+
+export function parseCacheControl(value?: string): CacheControl {
+  const directives: CacheControl = {};
+  if (!value) return directives;
+  for (const part of value.split(',')) {
+    const [name, ...rest] = part.trim().split('=');
+    if (!name) continue;
+    directives[name.toLowerCase()] = rest.length > 0 ? rest.join('=').replace(/^"|"$/g, '') : true;
+  }
+  return directives;
+}
+
+function parseSeconds(value?: string | true): number | null {
+  return typeof value === 'string' && /^\d+$/.test(value) ? parseInt(value, 10) * 1000 : null;
+}
+
+function parseDate(value?: string): number | null {
+  if (!value) return null;
+  const date = +new Date(value);
+  return isNaN(date) ? null : date;
+}
+
+function getVaryHeaderNames(headers: HttpHeaders): string[] {
+  const vary = getHeader(headers, 'vary');
+  return vary ? vary.split(',').map((name) => name.trim().toLowerCase()) : [];
+}
+
+function makeCachedResponse(entry: HttpCacheEntry, cacheStatus: HttpCacheStatus, setCookie?: HttpHeaders[string]) {
+  return Object.assign(createReadableStream(entry.body, STREAM_CHUNK_SIZE), {
+    statusCode: entry.status,
+    statusMessage: entry.statusMessage,
+    headers: setCookie ? { ...entry.headers, 'set-cookie': setCookie } : { ...entry.headers },
+    cacheStatus,
+  });
+}
+
+function markResponse(response: ResponseStream, cacheStatus: HttpCacheStatus): ResponseStream {
+  response.cacheStatus = cacheStatus;
+  return response;
+}
+
+function limitBody(response: ResponseStream, maxBodyBytes: number | null): Readable {
+  if (maxBodyBytes === null) return response;
+  const limitStream = createLimitStream(
+    maxBodyBytes,
+    () => new ResponseTooLargeError(`Response exceeded ${maxBodyBytes} bytes`)
+  );
+  pipeline(response, limitStream, () => undefined);
+  return limitStream;
+}
+
+export class HttpCache {
+  protected store: HttpCacheStore;
+  protected shared: boolean;
+
+  constructor({ store = new MemoryCacheStore(), shared = false }: Partial<HttpCacheOptions> = {}) {
+    this.store = store;
+    this.shared = shared;
+  }
+
+  public clear() {
+    return this.store.clear();
+  }
+
+  /**
+   * Cookies and Authorization are part of the key so that responses are never shared between sessions
+   */
+  protected makeKey(method: string, url: URL, requestHeaders: HttpHeaders): string {
+    const credentials = [getHeader(requestHeaders, 'cookie'), getHeader(requestHeaders, 'authorization')].join('\n');
+    return `${method} ${url.href} ${createHash('sha256').update(credentials).digest('hex')}`;
+  }
+
+  protected getFreshnessLifetime(headers: HttpHeaders): number {
+    const cacheControl = parseCacheControl(getHeader(headers, 'cache-control'));
+    if (cacheControl['no-cache']) return 0;
+    const sharedMaxAge = this.shared ? parseSeconds(cacheControl['s-maxage']) : null;
+    if (sharedMaxAge !== null) return sharedMaxAge;
+    const maxAge = parseSeconds(cacheControl['max-age']);
+    if (maxAge !== null) return maxAge;
+    const date = parseDate(getHeader(headers, 'date'));
+    const expires = getHeader(headers, 'expires');
+    if (expires) {
+      const expiresDate = parseDate(expires);
+      return expiresDate === null ? 0 : Math.max(0, expiresDate - (date || Date.now()));
+    }
+    const lastModified = parseDate(getHeader(headers, 'last-modified'));
+    return lastModified !== null && date !== null ? Math.max(0, (date - lastModified) / 10) : 0;
+  }
+
+  protected isFresh(entry: HttpCacheEntry): boolean {
+    const initialAge = parseSeconds(getHeader(entry.headers, 'age')) || 0;
+    return this.getFreshnessLifetime(entry.headers) > initialAge + Date.now() - entry.storedAt;
+  }
+
+  protected isStorable(requestHeaders: HttpHeaders, response: ResponseStream): boolean {
+    if (!HEURISTICALLY_CACHEABLE_STATUSES.includes(response.statusCode as number)) return false;
+    const cacheControl = parseCacheControl(getHeader(response.headers, 'cache-control'));
+    if (cacheControl['no-store']) return false;
+    if (this.shared && cacheControl['private']) return false;
+    if (
+      this.shared &&
+      getHeader(requestHeaders, 'authorization') &&
+      !cacheControl['public'] &&
+      !cacheControl['s-maxage'] &&
+      !cacheControl['must-revalidate']
+    ) {
+      return false;
+    }
+    if (getVaryHeaderNames(response.headers).includes('*')) return false;
+    return (
+      this.getFreshnessLifetime(response.headers) > 0 ||
+      !!getHeader(response.headers, 'etag') ||
+      !!getHeader(response.headers, 'last-modified')
+    );
+  }
+
+  protected async getEntry(key: string, requestHeaders: HttpHeaders): Promise<HttpCacheEntry | null> {
+    const entry = await this.store.get(key);
+    if (!entry) return null;
+    const varyMatches = Object.entries(entry.varyHeaders).every(
+      ([name, value]) => (getHeader(requestHeaders, name) || '') === value
+    );
+    return varyMatches ? entry : null;
+  }
+
+  protected makeEntry(url: URL, method: string, requestHeaders: HttpHeaders, response: ResponseStream, body: Buffer) {
+    const varyHeaders: Record<string, string> = {};
+    for (const name of getVaryHeaderNames(response.headers)) {
+      varyHeaders[name] = getHeader(requestHeaders, name) || '';
+    }
+    return {
+      url: url.href,
+      method,
+      status: response.statusCode as number,
+      statusMessage: response.statusMessage || '',
+      headers: omitHeaders(response.headers, ['set-cookie']),
+      body,
+      storedAt: Date.now(),
+      varyHeaders,
+    };
+  }
+
+  /**
+   * Serves fresh responses from the store, revalidates stale ones using ETag and Last-Modified and stores
+   * cacheable responses returned by send; requestHeaders are the headers send will use for this request.
+   * maxBodyBytes limits the body as received, which is what gets buffered and stored; a larger Content-Length is
+   * left to the caller to reject unread
+   */
+  public async send(
+    method: string,
+    url: URL,
+    requestHeaders: HttpHeaders,
+    canStore: boolean,
+    send: () => Promise<ResponseStream>,
+    maxBodyBytes: number | null = null
+  ): Promise<ResponseStream> {
+    const requestCacheControl = parseCacheControl(getHeader(requestHeaders, 'cache-control'));
+    const isConditional = CONDITIONAL_HEADERS.some((name) => !!getHeader(requestHeaders, name));
+    if ((method !== 'GET' && method !== 'HEAD') || requestCacheControl['no-store'] || isConditional) {
+      return markResponse(await send(), 'bypass');
+    }
+    const key = this.makeKey(method, url, requestHeaders);
+    const entry = await this.getEntry(key, requestHeaders);
+    if (entry && !requestCacheControl['no-cache'] && this.isFresh(entry)) {
+      return makeCachedResponse(entry, 'hit');
+    }
+    const validators: HttpHeaders = {};
+    const etag = entry ? getHeader(entry.headers, 'etag') : undefined;
+    const lastModified = entry ? getHeader(entry.headers, 'last-modified') : undefined;
+    if (etag) validators['If-None-Match'] = etag;
+    if (lastModified) validators['If-Modified-Since'] = lastModified;
+    Object.assign(requestHeaders, validators);
+    let response: ResponseStream;
+    try {
+      response = await send();
+    } finally {
+      for (const header of Object.keys(validators)) delete requestHeaders[header];
+    }
+    if (entry && response.statusCode === 304) {
+      response.resume();
+      const updatedEntry: HttpCacheEntry = {
+        ...entry,
+        headers: { ...entry.headers, ...omitHeaders(response.headers, ['set-cookie', 'content-length']) },
+        storedAt: Date.now(),
+      };
+      await this.store.set(key, updatedEntry);
+      return makeCachedResponse(
+        updatedEntry,
+        'revalidated',
+        response.headers['set-cookie'] || response.headers['Set-Cookie']
+      );
+    }
+    const contentLength = Number(getHeader(response.headers, 'content-length'));
+    const isTooLarge = maxBodyBytes !== null && contentLength > maxBodyBytes;
+    if (!canStore || isTooLarge || !this.isStorable(requestHeaders, response)) {
+      if (entry) await this.store.delete(key);
+      return markResponse(response, 'miss');
+    }
+    const body = await collectStreamToBuffer(limitBody(response, maxBodyBytes));
+    await this.store.set(key, this.makeEntry(url, method, requestHeaders, response, body));
+    return Object.assign(createReadableStream(body, STREAM_CHUNK_SIZE), {
+      statusCode: response.statusCode,
+      statusMessage: response.statusMessage,
+      headers: response.headers,
+      cacheStatus: 'miss' as const,
+    });
+  }
+}
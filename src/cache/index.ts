@@ -0,0 +1,3 @@
+export { HttpCache, parseCacheControl } from './http-cache';
+export { MemoryCacheStore } from './memory-store';
+export { FileSystemCacheStore } from './fs-store';
@@ -0,0 +1,35 @@
+import type { HttpCacheEntry, HttpCacheStore } from '../types/cache';
+
+export class MemoryCacheStore implements HttpCacheStore {
+  protected entries: Map<string, HttpCacheEntry> = new Map();
+  protected maxEntries: number;
+
+  constructor({ maxEntries = 1000 }: { maxEntries?: number } = {}) {
+    this.maxEntries = maxEntries;
+  }
+
+  public get(key: string): HttpCacheEntry | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  public set(key: string, entry: HttpCacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  public delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  public clear() {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,44 @@
+import type { HttpHeaders } from './types/http-request';
+import { TextDecoder } from 'node:util';
+
+/* Resources
+https://encoding.spec.whatwg.org/#names-and-labels
+https://html.spec.whatwg.org/multipage/parsing.html#prescan-a-byte-stream-to-determine-its-encoding
+*/
+
+const DEFAULT_ENCODING = 'utf-8';
+
+export function isSupportedEncoding(label: string): boolean {
+  try {
+    new TextDecoder(label);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getContentTypeCharset(headers: HttpHeaders): string | null {
+  const contentType = headers['content-type'] || headers['Content-Type'];
+  if (typeof contentType !== 'string') return null;
+  const match = /;\s*charset\s*=\s*"?([^";\s]+)"?/i.exec(contentType);
+  return match && isSupportedEncoding(match[1]) ? match[1].toLowerCase() : null;
+}
+
+function getBomEncoding(head: Buffer): string | null {
+  if (head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf) return 'utf-8';
+  if (head[0] === 0xfe && head[1] === 0xff) return 'utf-16be';
+  if (head[0] === 0xff && head[1] === 0xfe) return 'utf-16le';
+  return null;
+}
+
+function getMetaCharset(head: Buffer): string | null {
+  const match = /<meta[^>]+charset\s*=\s*["']?\s*([\w.:-]+)/i.exec(head.toString('latin1'));
+  return match && isSupportedEncoding(match[1]) ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Picks the encoding of a response body without a charset in its Content-Type from its BOM or <meta> tag
+ */
+export function sniffEncoding(head: Buffer): string {
+  return getBomEncoding(head) || getMetaCharset(head) || DEFAULT_ENCODING;
+}
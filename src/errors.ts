@@ -0,0 +1,135 @@
+import type { HttpRequestResponse, HttpTimeoutPhase } from './types/http-request';
+import { parseError } from './lib/parseError';
+import { getErrorCode } from './lib/getErrorCode';
+
+/**
+ * Base class of errors thrown by httpRequest; request and response are attached before the error is thrown to the
+ * caller, with secrets hidden
+ */
+export class HttpRequestError extends Error {
+  public code: string;
+  public request!: HttpRequestResponse<any>['request'];
+  public response!: Omit<HttpRequestResponse<any>, 'request'>;
+  public cause?: unknown;
+
+  constructor(message: string, code: string, responseData?: HttpRequestResponse<any>, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    if (typeof cause !== 'undefined') this.cause = cause;
+    if (responseData) {
+      const { request, ...response } = responseData;
+      this.request = request;
+      this.response = response;
+    }
+  }
+}
+
+export class InvalidUrlError extends HttpRequestError {
+  constructor(message: string, responseData?: HttpRequestResponse<any>) {
+    super(message, 'ERR_INVALID_URL', responseData);
+  }
+}
+
+export class HttpStatusError extends HttpRequestError {
+  public status: number;
+
+  constructor(message: string, status: number, responseData?: HttpRequestResponse<any>) {
+    super(message, 'ERR_HTTP_STATUS', responseData);
+    this.status = status;
+  }
+}
+
+const TIMEOUT_PHASE_NAMES: Record<HttpTimeoutPhase, string> = {
+  idle: 'Socket idle',
+  connect: 'Connect',
+  response: 'Response',
+  total: 'Total',
+};
+
+export class HttpTimeoutError extends HttpRequestError {
+  public phase: HttpTimeoutPhase;
+  public timeout: number;
+
+  /* code is ERR_TIMEOUT_ and the phase, like ERR_TIMEOUT_CONNECT, so it is never mistaken for the system ETIMEDOUT */
+  constructor(phase: HttpTimeoutPhase, timeout: number, responseData?: HttpRequestResponse<any>) {
+    super(
+      `${TIMEOUT_PHASE_NAMES[phase]} timeout of ${timeout}ms exceeded`,
+      `ERR_TIMEOUT_${phase.toUpperCase()}`,
+      responseData
+    );
+    this.phase = phase;
+    this.timeout = timeout;
+  }
+}
+
+export class TooManyRedirectsError extends HttpRequestError {
+  constructor(message: string, responseData?: HttpRequestResponse<any>, code = 'ERR_TOO_MANY_REDIRECTS') {
+    super(message, code, responseData);
+  }
+}
+
+export class RedirectLoopError extends TooManyRedirectsError {
+  constructor(message: string, responseData?: HttpRequestResponse<any>) {
+    super(message, responseData, 'ERR_REDIRECT_LOOP');
+  }
+}
+
+export class InvalidJsonError extends HttpRequestError {
+  constructor(message: string, responseData?: HttpRequestResponse<any>, cause?: unknown) {
+    super(message, 'ERR_INVALID_JSON', responseData, cause);
+  }
+}
+
+/**
+ * Thrown when the response does not pass validateJson or assertNonEmptyResponse
+ */
+export class ResponseValidationError extends HttpRequestError {
+  constructor(message: string, responseData?: HttpRequestResponse<any>, code = 'ERR_RESPONSE_VALIDATION') {
+    super(message, code, responseData);
+  }
+}
+
+export class ResponseTooLargeError extends HttpRequestError {
+  constructor(message: string, responseData?: HttpRequestResponse<any>, code = 'ERR_RESPONSE_TOO_LARGE') {
+    super(message, code, responseData);
+  }
+}
+
+/**
+ * Wraps an error raised while sending the request or receiving the response; code is the system error code, like
+ * ECONNRESET, when there is one
+ */
+export class NetworkError extends HttpRequestError {
+  constructor(cause: unknown, responseData?: HttpRequestResponse<any>) {
+    super(parseError(cause)[0], getErrorCode(cause) || 'ERR_NETWORK', responseData, cause);
+  }
+}
+
+/**
+ * Thrown when the abortSignal of a request is aborted while it waits, like between retry attempts or reconnects; the
+ * name and code are the ones of the errors node throws for aborted requests
+ */
+export class AbortError extends HttpRequestError {
+  constructor(message = 'The operation was aborted', responseData?: HttpRequestResponse<any>) {
+    super(message, 'ABORT_ERR', responseData);
+  }
+}
+
+/**
+ * Thrown when the token endpoint rejects a token request; error and errorDescription are the ones sent by the
+ * endpoint, if any
+ */
+export class OAuth2Error extends HttpRequestError {
+  public status: number;
+  public error: string | null;
+  public errorDescription: string | null;
+
+  constructor(status: number, error: string | null, errorDescription: string | null) {
+    const reason = error ? `: ${error}${errorDescription ? ` (${errorDescription})` : ''}` : '';
+    super(`Token request failed with status ${status}${reason}`, 'ERR_OAUTH2_TOKEN');
+    this.status = status;
+    this.error = error;
+    this.errorDescription = errorDescription;
+  }
+}
@@ -0,0 +1,168 @@
+import type { Readable } from 'node:stream';
+import type { HttpReconnectOptions, HttpResponseType, HttpServerSentEvent } from './types/http-request';
+import { TextDecoder } from 'node:util';
+import { wait } from './lib/wait';
+import { AbortError, HttpStatusError } from './errors';
+
+/* Resources
+https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+https://github.com/ndjson/ndjson-spec
+*/
+
+const DEFAULT_RECONNECT_OPTIONS: HttpReconnectOptions = {
+  maxReconnects: Infinity,
+  retryMs: 3000,
+};
+
+interface EventStreamState {
+  lastEventId: string;
+  retryMs: number;
+}
+
+/* resolves the stream of the next connection sent with Last-Event-ID, null when the server answered 204 */
+export type EventStreamReconnect = (lastEventId: string) => Promise<Readable | null>;
+
+export function makeReconnectOptions(reconnect?: Partial<HttpReconnectOptions> | boolean): HttpReconnectOptions | null {
+  if (!reconnect) return null;
+  return reconnect === true ? { ...DEFAULT_RECONNECT_OPTIONS } : { ...DEFAULT_RECONNECT_OPTIONS, ...reconnect };
+}
+
+/**
+ * Response types whose data is read while the caller consumes it instead of being collected first
+ */
+export function isStreamingResponseType(responseType: HttpResponseType): boolean {
+  return responseType === 'stream' || responseType === 'sse' || responseType === 'ndjson';
+}
+
+function isAborted(abortSignal?: AbortSignal): boolean {
+  return !!abortSignal && abortSignal.aborted;
+}
+
+/*
+Chunks are only read when the caller asks for the next line so a slow consumer pauses the response; the stream is
+destroyed when aborted or when the caller stops iterating early
+*/
+async function* readLines(stream: Readable, abortSignal?: AbortSignal): AsyncGenerator<string, void, undefined> {
+  const decoder = new TextDecoder('utf-8');
+  const onAbort = () => stream.destroy(new AbortError());
+  if (abortSignal) abortSignal.addEventListener('abort', onAbort, { once: true });
+  let buffer = '';
+  try {
+    if (isAborted(abortSignal)) onAbort();
+    for await (const chunk of stream) {
+      buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+      let match: RegExpExecArray | null;
+      /* a trailing \r may be the first half of \r\n */
+      while ((match = /\r\n|\r(?!$)|\n/.exec(buffer))) {
+        const line = buffer.slice(0, match.index);
+        buffer = buffer.slice(match.index + match[0].length);
+        yield line;
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.endsWith('\r')) buffer = buffer.slice(0, -1);
+    if (buffer.length > 0) yield buffer;
+  } finally {
+    if (abortSignal) abortSignal.removeEventListener('abort', onAbort);
+    if (!stream.destroyed) stream.destroy();
+  }
+}
+
+/**
+ * Yields each non-empty line parsed as JSON; onInvalidJson makes the error thrown for a line that is not
+ */
+export async function* parseNdjson(
+  stream: Readable,
+  onInvalidJson: (err: unknown) => Error,
+  abortSignal?: AbortSignal
+): AsyncGenerator<any, void, undefined> {
+  for await (const line of readLines(stream, abortSignal)) {
+    if (line.trim().length === 0) continue;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (err) {
+      throw onInvalidJson(err);
+    }
+    yield value;
+  }
+}
+
+/* an event without a blank line after it is incomplete and dropped when the stream ends */
+async function* parseEventStream(
+  stream: Readable,
+  state: EventStreamState,
+  abortSignal?: AbortSignal
+): AsyncGenerator<HttpServerSentEvent, void, undefined> {
+  let event = '';
+  let data: string[] = [];
+  let id = state.lastEventId;
+  let retry: number | null = null;
+  for await (const line of readLines(stream, abortSignal)) {
+    if (line.length === 0) {
+      state.lastEventId = id;
+      if (data.length > 0) yield { event: event || 'message', data: data.join('\n'), id, retry };
+      event = '';
+      data = [];
+      retry = null;
+      continue;
+    }
+    if (line.startsWith(':')) continue;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+    else if (field === 'id' && !value.includes('\0')) id = value;
+    else if (field === 'retry' && /^\d+$/.test(value)) {
+      retry = Number(value);
+      state.retryMs = retry;
+    }
+  }
+}
+
+/**
+ * Yields the events of stream and, when reconnect is set, of the connections made after it ends or fails; status
+ * errors of a reconnect and aborts are thrown right away, other errors once maxReconnects is reached
+ */
+export async function* iterateServerSentEvents(
+  stream: Readable,
+  reconnectOptions: HttpReconnectOptions | null,
+  reconnect: EventStreamReconnect | null,
+  abortSignal?: AbortSignal
+): AsyncGenerator<HttpServerSentEvent, void, undefined> {
+  const state: EventStreamState = {
+    lastEventId: '',
+    retryMs: reconnectOptions ? reconnectOptions.retryMs : DEFAULT_RECONNECT_OPTIONS.retryMs,
+  };
+  let current: Readable | null = stream;
+  let reconnects = 0;
+  while (current) {
+    let error: unknown = null;
+    try {
+      for await (const event of parseEventStream(current, state, abortSignal)) {
+        reconnects = 0;
+        yield event;
+      }
+    } catch (err) {
+      error = err;
+    }
+    current = null;
+    while (!current) {
+      if (isAborted(abortSignal) || !reconnectOptions || !reconnect || reconnects >= reconnectOptions.maxReconnects) {
+        if (error !== null) throw error;
+        return;
+      }
+      reconnects++;
+      await wait(state.retryMs, abortSignal);
+      try {
+        current = await reconnect(state.lastEventId);
+      } catch (err) {
+        if (err instanceof HttpStatusError) throw err;
+        error = err;
+        continue;
+      }
+      if (!current) return;
+    }
+  }
+}
@@ -0,0 +1,236 @@
+import type { HttpRequestResponse, HttpResponseType } from './types/http-request';
+import type { HttpSessionRequest } from './types/http-session';
+import type { HtmlForm, HtmlFormEnctype, HtmlFormFields, HtmlFormValues, SubmitFormOptions } from './types/forms';
+import { decodeHtmlEntities } from './lib/decodeHtmlEntities';
+
+/* Resources
+https://html.spec.whatwg.org/multipage/form-control-infrastructure.html#constructing-the-form-data-set
+https://html.spec.whatwg.org/multipage/form-control-infrastructure.html#form-submission-algorithm
+https://html.spec.whatwg.org/multipage/form-elements.html#concept-option-value
+*/
+
+const TAG_REGEX = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][^\s/>]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTRIBUTE_REGEX = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+const RAW_TEXT_TAGS = ['script', 'style', 'title'];
+const SKIPPED_INPUT_TYPES = ['submit', 'image', 'button', 'reset', 'file'];
+const ENCTYPES: HtmlFormEnctype[] = ['application/x-www-form-urlencoded', 'multipart/form-data', 'text/plain'];
+
+type Attributes = Record<string, string>;
+
+interface FormState {
+  attributes: Attributes;
+  entries: [string, string][];
+}
+
+interface SelectState {
+  owner: FormState | string | null;
+  attributes: Attributes;
+  options: { value: string; selected: boolean; disabled: boolean }[];
+}
+
+interface FieldEntry {
+  owner: FormState | string | null;
+  name: string;
+  value: string;
+}
+
+function parseAttributes(str: string): Attributes {
+  const attributes: Attributes = {};
+  const regex = new RegExp(ATTRIBUTE_REGEX.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(str))) {
+    const name = match[1].toLowerCase();
+    const value = match[2] !== undefined ? match[2] : match[3] !== undefined ? match[3] : match[4] || '';
+    if (!(name in attributes)) attributes[name] = decodeHtmlEntities(value);
+  }
+  return attributes;
+}
+
+function findClosingTag(html: string, tagName: string, fromIndex: number): number {
+  const regex = new RegExp(`</${tagName}[\\s>]`, 'gi');
+  regex.lastIndex = fromIndex;
+  const match = regex.exec(html);
+  return match ? match.index : html.length;
+}
+
+function makeUrl(url: string | undefined, baseUrl: URL): URL | null {
+  if (!url || !url.trim()) return null;
+  try {
+    return new URL(url.trim(), baseUrl);
+  } catch {
+    return null;
+  }
+}
+
+function getInputValue(attributes: Attributes): string | null {
+  const type = (attributes.type || 'text').toLowerCase();
+  if (SKIPPED_INPUT_TYPES.includes(type)) return null;
+  const isCheckable = type === 'checkbox' || type === 'radio';
+  if (isCheckable && !('checked' in attributes)) return null;
+  return typeof attributes.value === 'string' ? attributes.value : isCheckable ? 'on' : '';
+}
+
+/* a single select without a selected option submits its first option */
+function getSelectedValues({ attributes, options }: SelectState): string[] {
+  const enabledOptions = options.filter((option) => !option.disabled);
+  const selected = enabledOptions.filter((option) => option.selected);
+  if ('multiple' in attributes) return selected.map((option) => option.value);
+  if (selected.length > 0) return [selected[selected.length - 1].value];
+  return enabledOptions.length > 0 ? [enabledOptions[0].value] : [];
+}
+
+function makeFields(entries: [string, string][]): HtmlFormFields {
+  const fields: HtmlFormFields = {};
+  for (const [name, value] of entries) {
+    const existing = fields[name];
+    if (typeof existing === 'undefined') fields[name] = value;
+    else fields[name] = ([] as string[]).concat(existing, value);
+  }
+  return fields;
+}
+
+function makeForm({ attributes, entries }: FormState, documentUrl: URL, baseUrl: URL): HtmlForm {
+  const enctype = (attributes.enctype || '').toLowerCase();
+  return {
+    id: attributes.id || null,
+    name: attributes.name || null,
+    action: makeUrl(attributes.action, baseUrl) || documentUrl,
+    method: (attributes.method || '').toLowerCase() === 'post' ? 'POST' : 'GET',
+    enctype: ENCTYPES.find((value) => value === enctype) || ENCTYPES[0],
+    fields: makeFields(entries),
+  };
+}
+
+/**
+ * Finds the forms in an HTML document and the values a browser would submit for them; controls associated with a
+ * form through the form attribute are included
+ */
+export function parseForms(html: string, url: URL | string): HtmlForm[] {
+  const documentUrl = new URL(url.toString());
+  const forms: FormState[] = [];
+  const entries: FieldEntry[] = [];
+  const tagRegex = new RegExp(TAG_REGEX.source, 'g');
+  let baseUrl: URL | null = null;
+  let form: FormState | null = null;
+  let select: SelectState | null = null;
+  const endSelect = () => {
+    if (select && select.attributes.name && !('disabled' in select.attributes)) {
+      const { owner, attributes } = select;
+      getSelectedValues(select).forEach((value) => entries.push({ owner, name: attributes.name, value }));
+    }
+    select = null;
+  };
+  let match: RegExpExecArray | null;
+  while ((match = tagRegex.exec(html))) {
+    const [, closing, rawTagName, rawAttributes] = match;
+    if (!rawTagName) continue;
+    const tagName = rawTagName.toLowerCase();
+    if (closing) {
+      if (tagName === 'form') form = null;
+      else if (tagName === 'select') endSelect();
+      continue;
+    }
+    const attributes = parseAttributes(rawAttributes || '');
+    const owner = typeof attributes.form === 'string' ? attributes.form : form;
+    const contentStart = tagRegex.lastIndex;
+    if (RAW_TEXT_TAGS.includes(tagName)) {
+      tagRegex.lastIndex = findClosingTag(html, tagName, contentStart);
+    } else if (tagName === 'base') {
+      if (!baseUrl) baseUrl = makeUrl(attributes.href, documentUrl);
+    } else if (tagName === 'form') {
+      if (!form) {
+        form = { attributes, entries: [] };
+        forms.push(form);
+      }
+    } else if (tagName === 'input') {
+      const value = getInputValue(attributes);
+      if (attributes.name && !('disabled' in attributes) && value !== null) {
+        entries.push({ owner, name: attributes.name, value });
+      }
+    } else if (tagName === 'textarea') {
+      const contentEnd = findClosingTag(html, tagName, contentStart);
+      tagRegex.lastIndex = contentEnd;
+      if (attributes.name && !('disabled' in attributes)) {
+        const value = decodeHtmlEntities(html.slice(contentStart, contentEnd)).replace(/^\r?\n/, '');
+        entries.push({ owner, name: attributes.name, value });
+      }
+    } else if (tagName === 'select') {
+      endSelect();
+      select = { owner, attributes, options: [] };
+    } else if (tagName === 'option' && select) {
+      const textEnd = html.indexOf('<', contentStart);
+      const text = decodeHtmlEntities(html.slice(contentStart, textEnd < 0 ? html.length : textEnd));
+      select.options.push({
+        value: typeof attributes.value === 'string' ? attributes.value : text.replace(/\s+/g, ' ').trim(),
+        selected: 'selected' in attributes,
+        disabled: 'disabled' in attributes,
+      });
+    }
+  }
+  endSelect();
+  for (const { owner, name, value } of entries) {
+    const state = typeof owner === 'string' ? forms.find(({ attributes }) => attributes.id === owner) || null : owner;
+    if (state) state.entries.push([name, value]);
+  }
+  return forms.map((state) => makeForm(state, documentUrl, baseUrl || documentUrl));
+}
+
+/**
+ * Parses the forms of an HTML response; form actions are resolved against the url the response came from
+ */
+export function extractForms(response: Pick<HttpRequestResponse<HttpResponseType>, 'data' | 'url'>): HtmlForm[] {
+  const { data, url } = response;
+  if (typeof data !== 'string' && !Buffer.isBuffer(data)) {
+    throw new TypeError('Response data must be a string or a Buffer to extract forms');
+  }
+  return parseForms(data.toString(), url);
+}
+
+function mergeFields(fields: HtmlFormFields, values: HtmlFormValues): HtmlFormFields {
+  const merged: HtmlFormFields = { ...fields };
+  for (const [name, value] of Object.entries(values)) {
+    if (value === null) delete merged[name];
+    else merged[name] = value;
+  }
+  return merged;
+}
+
+function formatPlainText(fields: HtmlFormFields): string {
+  const lines = Object.entries(fields).map(([name, value]) =>
+    ([] as string[]).concat(value).map((item) => `${name}=${item}\r\n`)
+  );
+  return ([] as string[]).concat(...lines).join('');
+}
+
+/**
+ * Submits a form found by extractForms the way a browser would, with values merged over the form fields; request is
+ * usually LoginMethods.request so cookies and defaults of the session apply
+ */
+export function submitForm<R extends HttpResponseType = 'string'>(
+  request: HttpSessionRequest,
+  form: HtmlForm,
+  values: HtmlFormValues = {},
+  options: SubmitFormOptions<R> = {}
+): Promise<HttpRequestResponse<R>> {
+  const fields = mergeFields(form.fields, values);
+  if (form.method === 'GET') {
+    const url = new URL(form.action.toString());
+    url.search = '';
+    return request({ ...options, url, method: 'GET', query: fields });
+  }
+  switch (form.enctype) {
+    case 'multipart/form-data':
+      return request({ ...options, url: form.action, method: 'POST', dataType: 'multipart', data: fields });
+    case 'text/plain':
+      return request({
+        ...options,
+        url: form.action,
+        method: 'POST',
+        dataType: 'raw',
+        data: formatPlainText(fields),
+        headers: { 'Content-Type': 'text/plain', ...options.headers },
+      });
+    default:
+      return request({ ...options, url: form.action, method: 'POST', dataType: 'form', data: fields });
+  }
+}
@@ -0,0 +1,240 @@
+import type { Readable } from 'node:stream';
+import type { HttpHeaders, HttpSecret, HttpTimings, ResponseStream } from './types/http-request';
+import type { Har, HarCookie, HarEntry, HarNameValue, HarRecorderOptions } from './types/har';
+import { promises as fs, readFileSync } from 'node:fs';
+import * as path from 'node:path';
+import { getCookieHeaders } from './cookies/get-cookie-headers';
+import { limitString } from './lib/limitString';
+import { redactSecrets } from './lib/redactSecrets';
+
+/* Resources
+http://www.softwareishard.com/blog/har-12-spec/
+https://w3c.github.io/web-performance/specs/HAR/Overview.html
+*/
+
+let creator: Har['log']['creator'] | null = null;
+
+/* package.json is one level above both src and dist */
+function getCreator(): Har['log']['creator'] {
+  if (creator) return creator;
+  try {
+    const { name, version } = JSON.parse(readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8'));
+    creator = { name: String(name), version: String(version) };
+  } catch {
+    creator = { name: '@kksiuda/http-session', version: '' };
+  }
+  return creator;
+}
+
+function toHarTiming(duration: number | null | undefined): number {
+  return typeof duration === 'number' ? duration : -1;
+}
+
+/**
+ * A single request/response exchange; one request made by httpRequest consists of one hop per redirect
+ */
+export interface HarHop {
+  startedAt: number;
+  method: string;
+  url: URL;
+  headers: HttpHeaders;
+  data: string | Buffer | Readable;
+  responseAt?: number;
+  response?: ResponseStream;
+  timings?: HttpTimings;
+}
+
+function getHeader(headers: HttpHeaders, name: string): string | undefined {
+  const lowerCaseName = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() !== lowerCaseName || typeof value === 'undefined') continue;
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return undefined;
+}
+
+function makeHarHeaders(headers: HttpHeaders, hideSecrets: HttpSecret[]): HarNameValue[] {
+  const output: HarNameValue[] = [];
+  for (const [name, value] of Object.entries(headers)) {
+    if (typeof value === 'undefined') continue;
+    if (name.toLowerCase() === 'cookie') {
+      if (Array.isArray(value) && value.length === 0) continue;
+      output.push({ name, value: redactSecrets(Array.isArray(value) ? value.join('; ') : String(value), hideSecrets) });
+    } else if (Array.isArray(value)) {
+      value.forEach((item) => output.push({ name, value: redactSecrets(item, hideSecrets) }));
+    } else {
+      output.push({ name, value: redactSecrets(String(value), hideSecrets) });
+    }
+  }
+  return output;
+}
+
+function makeRequestCookies(headers: HttpHeaders, hideSecrets: HttpSecret[]): HarCookie[] {
+  const cookieHeader = getHeader(headers, 'cookie');
+  if (!cookieHeader) return [];
+  return cookieHeader
+    .split(/[;,]\s*/)
+    .filter((str) => str.includes('='))
+    .map((str) => {
+      const index = str.indexOf('=');
+      return { name: str.slice(0, index).trim(), value: redactSecrets(str.slice(index + 1), hideSecrets) };
+    });
+}
+
+function makeResponseCookies(headers: HttpHeaders, hideSecrets: HttpSecret[]): HarCookie[] {
+  return getCookieHeaders(headers).map((str) => {
+    const [nameValue, ...attributes] = str.split(/;\s*/);
+    const index = nameValue.indexOf('=');
+    const cookie: HarCookie = {
+      name: nameValue.slice(0, index).trim(),
+      value: redactSecrets(nameValue.slice(index + 1), hideSecrets),
+    };
+    for (const attribute of attributes) {
+      const [key, value = ''] = attribute.split('=');
+      switch (key.trim().toLowerCase()) {
+        case 'path':
+          cookie.path = value;
+          break;
+        case 'domain':
+          cookie.domain = value;
+          break;
+        case 'expires':
+          cookie.expires = isNaN(+new Date(value)) ? value : new Date(value).toISOString();
+          break;
+        case 'httponly':
+          cookie.httpOnly = true;
+          break;
+        case 'secure':
+          cookie.secure = true;
+          break;
+      }
+    }
+    return cookie;
+  });
+}
+
+/* an invalid Location is kept as sent, the request fails with InvalidUrlError after the hop is recorded */
+function resolveRedirectUrl(location: string, url: URL): string {
+  try {
+    return new URL(location, url).toString();
+  } catch {
+    return location;
+  }
+}
+
+function makeQueryString(url: URL, hideSecrets: HttpSecret[]): HarNameValue[] {
+  return Array.from(url.searchParams.entries()).map(([name, value]) => ({
+    name,
+    value: redactSecrets(value, hideSecrets),
+  }));
+}
+
+function getBodySize(data: string | Buffer | Readable): number {
+  if (typeof data === 'string') return Buffer.byteLength(data);
+  return Buffer.isBuffer(data) ? data.length : -1;
+}
+
+function formatBody(data: string | Buffer | Readable): string {
+  if (typeof data === 'string') return data;
+  return Buffer.isBuffer(data) ? '[BINARY]' : '[STREAM]';
+}
+
+export class HarRecorder {
+  protected entries: HarEntry[] = [];
+  protected includeBodies: boolean;
+  protected maxBodyLength: number;
+
+  constructor({ includeBodies = false, maxBodyLength = 1_000_000 }: Partial<HarRecorderOptions> = {}) {
+    this.includeBodies = includeBodies;
+    this.maxBodyLength = maxBodyLength;
+  }
+
+  /**
+   * Adds an entry for a completed hop; body is the decoded response body, error the reason the hop failed
+   */
+  public record(
+    hop: HarHop,
+    hideSecrets: HttpSecret[],
+    { body, error }: { body?: string | Buffer | Readable | null; error?: string } = {}
+  ) {
+    const endedAt = Date.now();
+    const responseAt = hop.responseAt || endedAt;
+    const { response, timings } = hop;
+    const requestContentType = getHeader(hop.headers, 'content-type');
+    const responseHeaders = response ? response.headers : {};
+    const contentLength = getHeader(responseHeaders, 'content-length');
+    const location = getHeader(responseHeaders, 'location');
+    const entry: HarEntry = {
+      startedDateTime: new Date(hop.startedAt).toISOString(),
+      time: endedAt - hop.startedAt,
+      request: {
+        method: hop.method,
+        url: redactSecrets(hop.url.toString(), hideSecrets),
+        httpVersion: 'HTTP/1.1',
+        cookies: makeRequestCookies(hop.headers, hideSecrets),
+        headers: makeHarHeaders(hop.headers, hideSecrets),
+        queryString: makeQueryString(hop.url, hideSecrets),
+        headersSize: -1,
+        bodySize: getBodySize(hop.data),
+      },
+      response: {
+        status: response ? (response.statusCode as number) : 0,
+        statusText: response ? response.statusMessage || '' : '',
+        httpVersion: response && response.httpVersion ? `HTTP/${response.httpVersion}` : 'HTTP/1.1',
+        cookies: makeResponseCookies(responseHeaders, hideSecrets),
+        headers: makeHarHeaders(responseHeaders, hideSecrets),
+        content: {
+          size: body && typeof body !== 'string' && !Buffer.isBuffer(body) ? -1 : getBodySize(body || ''),
+          mimeType: getHeader(responseHeaders, 'content-type') || '',
+        },
+        redirectURL: location ? redactSecrets(resolveRedirectUrl(location, hop.url), hideSecrets) : '',
+        headersSize: -1,
+        bodySize: contentLength ? Number(contentLength) : -1,
+      },
+      cache: {},
+      timings: {
+        blocked: toHarTiming(timings && timings.socket),
+        dns: toHarTiming(timings && timings.dns),
+        /* HAR counts the TLS handshake in both connect and ssl */
+        connect: timings && timings.connect !== null ? timings.connect + (timings.tls || 0) : -1,
+        ssl: toHarTiming(timings && timings.tls),
+        send: 0,
+        wait: timings && timings.firstByte !== null ? timings.firstByte : responseAt - hop.startedAt,
+        receive: timings && timings.download !== null ? timings.download : endedAt - responseAt,
+      },
+    };
+    if (response && response.cacheStatus) entry._cacheStatus = response.cacheStatus;
+    if (error) entry.response._error = redactSecrets(error, hideSecrets);
+    if (this.includeBodies && getBodySize(hop.data) !== 0) {
+      entry.request.postData = {
+        mimeType: requestContentType || '',
+        text: redactSecrets(limitString(formatBody(hop.data), this.maxBodyLength), hideSecrets),
+      };
+    }
+    if (this.includeBodies && typeof body === 'string') {
+      entry.response.content.text = redactSecrets(limitString(body, this.maxBodyLength), hideSecrets);
+    } else if (this.includeBodies && Buffer.isBuffer(body)) {
+      entry.response.content.text = body.subarray(0, this.maxBodyLength).toString('base64');
+      entry.response.content.encoding = 'base64';
+    }
+    this.entries.push(entry);
+  }
+
+  public getHar(): Har {
+    return {
+      log: {
+        version: '1.2',
+        creator: { ...getCreator() },
+        entries: this.entries.slice(),
+      },
+    };
+  }
+
+  public async save(filename: string): Promise<void> {
+    await fs.writeFile(filename, JSON.stringify(this.getHar(), null, 2));
+  }
+
+  public clear() {
+    this.entries = [];
+  }
+}
@@ -1,13 +1,15 @@
 import type { RequestOptions } from 'node:https';
-import type { Readable, Transform } from 'node:stream';
+import type { Agent } from 'node:http';
+import type { Readable } from 'node:stream';
 import { CookieJar } from './cookies/jar';
+import { getCookieHeaders } from './cookies/get-cookie-headers';
 import { URL } from 'node:url';
 import { request as nodeHttpsRequest } from 'node:https';
 import { request as nodeHttpRequest } from 'node:http';
+import type { LogEvent, Logger } from './types/logger';
 import { noOpLogger } from './lib/noOpLogger';
 import type {
   ErrorWithStack,
-  HttpRequestError,
   HttpRequestResponse,
   HttpHeaders,
   HttpRequestDataType,
@@ -17,14 +19,54 @@ import type {
   HttpResponseType,
   ResponseStream,
   HttpResponseDataType,
+  HttpAgentResolver,
+  HttpProxy,
+  HttpRedirectInfo,
+  HttpSecret,
+  HttpTimings,
 } from './types/http-request';
+import { pipeline, Transform } from 'node:stream';
 import { createGunzip, createBrotliDecompress, createInflate } from 'node:zlib';
 import { limitString } from './lib/limitString';
+import { redactSecrets } from './lib/redactSecrets';
 import { asyncPipeline } from './lib/asyncPipeline';
 import { callbackPromise } from './lib/callbackPromise';
 import { collectStreamToBuffer } from './lib/collectStreamToBuffer';
 import { collectStreamToString } from './lib/collectStreamToString';
 import { createReadableStream } from './lib/createReadableStream';
+import { isReadableStream } from './lib/isReadableStream';
+import { createLimitStream } from './lib/createLimitStream';
+import { parseError } from './lib/parseError';
+import { wait } from './lib/wait';
+import { makeRetryOptions, getRetryDelay } from './retry';
+import { formatMultipartData, summarizeMultipartData } from './multipart';
+import { runMiddleware } from './middleware';
+import { addQueryToUrl } from './query';
+import { isLogLevelEnabled } from './logger';
+import { performance } from 'node:perf_hooks';
+import { addDataSecrets, addHeaderSecrets, addUrlSecrets, makeRedactionPolicy, redactValue } from './redact';
+import { answerAuthChallenge, getAuthorization } from './auth';
+import { formatStatusMismatch, isValidStatus, makeStatusValidator } from './status';
+import { createProxyAgent, getProxyForUrl } from './proxy';
+import { trackDownloadProgress, trackUploadProgress } from './progress';
+import { trackTimings } from './timings';
+import { isStreamingResponseType, iterateServerSentEvents, makeReconnectOptions, parseNdjson } from './event-stream';
+import type { EventStreamReconnect } from './event-stream';
+import { createDeadline, watchRequestTimeouts } from './timeouts';
+import { getContentTypeCharset, isSupportedEncoding, sniffEncoding } from './charset';
+import type { HarHop } from './har';
+import {
+  HttpRequestError,
+  HttpStatusError,
+  InvalidJsonError,
+  HttpTimeoutError,
+  InvalidUrlError,
+  NetworkError,
+  RedirectLoopError,
+  ResponseTooLargeError,
+  ResponseValidationError,
+  TooManyRedirectsError,
+} from './errors';
 /* Resources
 https://developer.mozilla.org/en-US/docs/Web/HTTP/Redirections
 https://nodejs.org/api/http.html#httprequestoptions-callback
@@ -34,6 +76,11 @@ https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Referrer-Policy
 */
 
 const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:100.0) Gecko/20100101 Firefox/100.0';
+const DECOMPRESSED_RESPONSE_TOO_LARGE = 'ERR_DECOMPRESSED_RESPONSE_TOO_LARGE';
+const DEFAULT_SENSITIVE_HEADERS = ['authorization', 'proxy-authorization'];
+const STREAM_BODY_NOT_REPLAYABLE = 'ERR_STREAM_BODY_NOT_REPLAYABLE';
+const UNSUPPORTED_CONTENT_ENCODING = 'ERR_UNSUPPORTED_CONTENT_ENCODING';
+const EMPTY_RESPONSE = 'ERR_EMPTY_RESPONSE';
 
 export function isHttpRequestError(err: any): err is HttpRequestError {
   return (
@@ -46,9 +93,12 @@ export function isHttpRequestError(err: any): err is HttpRequestError {
   );
 }
 
-export function makeHttpRequestError(error: Error, responseData: HttpRequestResponse<any>): HttpRequestError {
-  const { request, ...response } = responseData;
-  return Object.assign({ message: error.message as string, stack: error.stack as string }, { request, response });
+function isAbortError(err: unknown): boolean {
+  return !!err && typeof err === 'object' && (err as Error).name === 'AbortError';
+}
+
+function makeNetworkError(err: unknown): unknown {
+  return err instanceof HttpRequestError || isAbortError(err) ? err : new NetworkError(err);
 }
 
 function isError(err: any): err is ErrorWithStack {
@@ -60,8 +110,9 @@ function isError(err: any): err is ErrorWithStack {
   );
 }
 
-function isReadableStream(val: any): val is Readable {
-  return !!val && typeof val.pipe === 'function';
+/* readable streams and the iterators of sse and ndjson responses */
+function isAsyncIterable(val: any): val is AsyncIterable<unknown> {
+  return !!val && typeof val[Symbol.asyncIterator] === 'function';
 }
 
 function isBinary(val: any): val is Buffer {
@@ -72,7 +123,7 @@ function isRecord(val: any): val is Record<string, string | string[]> {
   return typeof val === 'object' && !Array.isArray(val) && Object.keys(val).length >= 0;
 }
 
-function formatData(dataType: Exclude<HttpRequestDataType, 'stream'>, data?: any): string | Buffer {
+function formatData(dataType: Exclude<HttpRequestDataType, 'stream' | 'multipart'>, data?: any): string | Buffer {
   switch (dataType) {
     case 'binary':
       if (!isBinary(data)) throw new TypeError('Property data is not a Buffer when dataType is "binary"');
@@ -103,19 +154,67 @@ function formatData(dataType: Exclude<HttpRequestDataType, 'stream'>, data?: any
   }
 }
 
+/*
+Keeps a copy of a stream body so that it can be sent again when a 307 or 308 redirect requires it
+*/
+function createRecordingStream(stream: Readable, chunks: Buffer[]): Readable {
+  const recordingStream = new Transform({
+    transform(chunk, _enc, done) {
+      chunks.push(Buffer.from(chunk));
+      done(null, chunk);
+    },
+  });
+  pipeline(stream, recordingStream, () => undefined);
+  return recordingStream;
+}
+
+function makeResponseEncoding(responseEncoding?: string): string | null {
+  if (typeof responseEncoding === 'undefined') return null;
+  if (!isSupportedEncoding(responseEncoding)) throw new TypeError(`Unsupported responseEncoding: ${responseEncoding}`);
+  return responseEncoding;
+}
+
 function makeRequestParams<T extends HttpRequestDataType>(
   options: HttpRequestOptions<T, any>,
   url: URL
 ): HttpRequestParams {
+  const multipart = options.dataType === 'multipart' ? formatMultipartData(options.data) : null;
+  const data = multipart
+    ? multipart.body
+    : options.dataType === 'stream'
+    ? options.data || createReadableStream('')
+    : formatData((options.dataType || 'raw') as Exclude<HttpRequestDataType, 'stream' | 'multipart'>, options.data);
+  const streamBodyChunks = isReadableStream(data) && options.bufferStreamBody ? [] : null;
+  const formattedData = streamBodyChunks ? createRecordingStream(data as Readable, streamBodyChunks) : data;
+  const redact = makeRedactionPolicy(options.redact);
   return {
     dataType: (options.dataType || 'raw') as T,
     responseType: options.responseType || 'string',
+    responseEncoding: makeResponseEncoding(options.responseEncoding),
     maxRedirects: options.maxRedirects || 5,
-    formattedData:
-      options.dataType === 'stream'
-        ? options.data || createReadableStream('')
-        : formatData(options.dataType || 'raw', options.data),
+    followRedirects: typeof options.followRedirects === 'undefined' ? true : options.followRedirects,
+    sensitiveHeaders: DEFAULT_SENSITIVE_HEADERS.concat(
+      (options.sensitiveHeaders || []).map((header) => header.toLowerCase())
+    ),
+    trustedOrigins: (options.trustedOrigins || []).map(makeOrigin),
+    hideSecrets: ([] as HttpSecret[]).concat(options.hideSecrets || [], redact.patterns),
+    redact,
+    streamBodyChunks,
+    retry: isReadableStream(formattedData) ? null : makeRetryOptions(options.retry),
+    reconnect: makeReconnectOptions(options.reconnect),
+    auth: options.auth || null,
+    cache: options.cache || null,
+    onUploadProgress: options.onUploadProgress || null,
+    onDownloadProgress: options.onDownloadProgress || null,
+    maxResponseBytes: typeof options.maxResponseBytes === 'number' ? options.maxResponseBytes : null,
+    maxDecompressedBytes: typeof options.maxDecompressedBytes === 'number' ? options.maxDecompressedBytes : null,
+    connectTimeout: typeof options.connectTimeout === 'number' ? options.connectTimeout : null,
+    responseTimeout: typeof options.responseTimeout === 'number' ? options.responseTimeout : null,
+    totalTimeout: typeof options.totalTimeout === 'number' ? options.totalTimeout : null,
+    formattedData,
+    multipart,
     logger: options.logger || noOpLogger,
+    getAgent: makeAgentResolver(options.agent, options.proxy),
     makeRequest:
       options._request ||
       ((url, options, cb) => {
@@ -124,7 +223,7 @@ function makeRequestParams<T extends HttpRequestDataType>(
     host: options.host || options.previousUrl ? makeURL(options.previousUrl).hostname : url.hostname,
     origin: options.previousUrl ? makeURL(options.previousUrl).origin : url.origin,
     validateJson: options.validateJson,
-    validateStatus: options.validateStatus,
+    validateStatus: makeStatusValidator(options.validateStatus),
     assertNonEmptyResponse: options.assertNonEmptyResponse || false,
   };
 }
@@ -137,28 +236,52 @@ function copyHeaders(headers: HttpHeaders): HttpHeaders {
   return output;
 }
 
+/*
+GET and HEAD requests carry no content; POST, PUT and PATCH always declare their Content-Length even when empty;
+other methods only declare content when there is some
+https://www.rfc-editor.org/rfc/rfc9110#section-8.6
+*/
+function methodAllowsBody(method: HttpMethod): boolean {
+  return method !== 'GET' && method !== 'HEAD';
+}
+
+function methodExpectsBody(method: HttpMethod): boolean {
+  return method === 'POST' || method === 'PUT' || method === 'PATCH';
+}
+
+function addContentHeaders(requestParams: HttpRequestParams, headers: HttpHeaders, method: HttpMethod) {
+  const { dataType, formattedData, multipart } = requestParams;
+  if (!methodAllowsBody(method)) return;
+  if (multipart) {
+    headers['Content-Type'] = `multipart/form-data; boundary=${multipart.boundary}`;
+    if (multipart.contentLength === null) headers['Transfer-Encoding'] = 'chunked';
+    else headers['Content-Length'] = multipart.contentLength;
+    return;
+  }
+  if (dataType === 'stream' || isReadableStream(formattedData)) return;
+  const contentLength = Buffer.byteLength(formattedData);
+  if (contentLength === 0 && !methodExpectsBody(method)) return;
+  if (dataType === 'form') {
+    headers['Content-Type'] = 'application/x-www-form-urlencoded';
+  } else if (dataType === 'binary') {
+    headers['Content-Type'] = 'application/octet-stream';
+  } else if (dataType === 'json') {
+    headers['Content-Type'] = 'application/json';
+  }
+  headers['Content-Length'] = contentLength;
+}
+
 function makeHeaders(
   requestParams: HttpRequestParams,
   cookieJar: CookieJar,
   url: URL,
   previousUrl: URL | undefined,
   existingHeaders: HttpHeaders,
-  isGetMethod: boolean
+  method: HttpMethod
 ) {
   const headers = copyHeaders(existingHeaders);
-  if (!isGetMethod && !headers['Content-Type'] && !headers['Content-Length']) {
-    if (requestParams.dataType === 'form') {
-      headers['Content-Type'] = 'application/x-www-form-urlencoded';
-      headers['Content-Length'] = Buffer.byteLength(requestParams.formattedData as string);
-    } else if (requestParams.dataType === 'binary') {
-      headers['Content-Type'] = 'application/octet-stream';
-      headers['Content-Length'] = Buffer.byteLength(requestParams.formattedData as Buffer);
-    } else if (requestParams.dataType === 'json') {
-      headers['Content-Type'] = 'application/json';
-      headers['Content-Length'] = Buffer.byteLength(requestParams.formattedData as string);
-    } else if (requestParams.dataType === 'raw') {
-      headers['Content-Length'] = Buffer.byteLength(requestParams.formattedData as string);
-    }
+  if (!headers['Content-Type'] && !headers['Content-Length']) {
+    addContentHeaders(requestParams, headers, method);
   }
   if (previousUrl && !headers['Referer']) {
     addRefererToHeaders(url, previousUrl, headers);
@@ -192,8 +315,10 @@ function makeHeaders(
 
 function makeOptions<T extends HttpRequestDataType>(
   options: HttpRequestOptions<T, any>
-): [HttpRequestParams, CookieJar, URL, { headers: HttpHeaders; method: HttpMethod } & RequestOptions, string[]] {
-  const url = makeURL(options.url);
+): [HttpRequestParams, CookieJar, URL, { headers: HttpHeaders; method: HttpMethod } & RequestOptions, HttpSecret[]] {
+  const baseUrl = makeURL(options.url);
+  const url =
+    options.query && !isInvalidUrl(baseUrl) ? addQueryToUrl(baseUrl, options.query, options.queryArrayFormat) : baseUrl;
   const previousUrl = options.previousUrl ? makeURL(options.previousUrl) : undefined;
   const requestParams = makeRequestParams(options, url);
   const cookieJar = options.cookieJar || new CookieJar();
@@ -204,33 +329,265 @@ function makeOptions<T extends HttpRequestDataType>(
     url,
     previousUrl,
     options.headers || {},
-    !options.method || options.method === 'GET'
+    options.method || 'GET'
   );
+  const { redact, hideSecrets } = requestParams;
+  addHeaderSecrets(redact, hideSecrets, headers);
+  addUrlSecrets(redact, hideSecrets, url);
+  addDataSecrets(redact, hideSecrets, options.data);
   return [
     requestParams,
     cookieJar,
     url,
     {
       method: options.method || 'GET',
-      agent: options.agent,
+      agent: requestParams.getAgent(url),
       headers,
       signal: options.abortSignal,
       timeout: options.timeout,
     },
-    options.hideSecrets || [],
+    requestParams.hideSecrets,
   ];
 }
 
+async function sendRequest(
+  { makeRequest, onUploadProgress, connectTimeout, responseTimeout }: HttpRequestParams,
+  url: URL,
+  nodeRequestParams: RequestOptions,
+  data: Readable | string | Buffer,
+  timings: HttpTimings[]
+): Promise<ResponseStream> {
+  const [responsePromise, responseCallback] = callbackPromise<ResponseStream>();
+  const request = makeRequest(url, nodeRequestParams, (response) => {
+    clearTimeouts();
+    onResponse(response);
+    responseCallback(response);
+  });
+  const [hopTimings, onResponse] = trackTimings(request, url, nodeRequestParams.method || 'GET');
+  timings.push(hopTimings);
+  const [timeoutPromise, onTimeout] = callbackPromise<HttpTimeoutError>();
+  const clearTimeouts = watchRequestTimeouts(
+    request,
+    url.protocol === 'https:',
+    { timeout: nodeRequestParams.timeout, connectTimeout, responseTimeout },
+    onTimeout
+  );
+  request.once('error', clearTimeouts);
+  if (onUploadProgress) {
+    const totalBytes = getContentLength(nodeRequestParams.headers || {});
+    await asyncPipeline(createReadableStream(data), trackUploadProgress(totalBytes, onUploadProgress), request);
+  } else {
+    await asyncPipeline(createReadableStream(data), request);
+  }
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    request.on('error', (err) => {
+      if (!settled) {
+        settled = true;
+        reject(err);
+      }
+    });
+    responsePromise.then(
+      (res) => resolve(res),
+      (err) => reject(err)
+    );
+    timeoutPromise.then((err) => reject(err));
+  });
+}
+
+async function sendRequestWithRetry(
+  requestParams: HttpRequestParams,
+  url: URL,
+  nodeRequestParams: { method: HttpMethod } & RequestOptions,
+  data: Readable | string | Buffer,
+  responseData: HttpRequestResponse<any>,
+  abortSignal?: AbortSignal
+): Promise<ResponseStream> {
+  const { retry, logger, hideSecrets } = requestParams;
+  for (let attempt = 1; ; attempt++) {
+    let error: unknown = null;
+    let response: ResponseStream | null = null;
+    try {
+      response = await sendRequest(requestParams, url, nodeRequestParams, data, responseData.timings);
+    } catch (err) {
+      error = err;
+    }
+    responseData.attempts++;
+    const status = response ? response.statusCode : undefined;
+    const delayMs = getRetryDelay(retry, {
+      attempt,
+      method: nodeRequestParams.method,
+      url,
+      status,
+      headers: response ? response.headers : undefined,
+      error: error || undefined,
+    });
+    if (delayMs === null || !retry || (abortSignal && abortSignal.aborted)) {
+      if (error || !response) throw makeNetworkError(error);
+      return response;
+    }
+    if (response) response.resume();
+    const [errorMessage] = parseError(error || `Response status ${status}`);
+    responseData.attemptErrors.push({ url: url.toString(), attempt, status, error: errorMessage, delayMs });
+    logDebug(logger, () => [
+      `RETRY (${attempt}/${retry.maxAttempts}) IN ${delayMs}ms ${formatUrl(url, hideSecrets, 200)}`,
+      `${nodeRequestParams.method} ${formatUrl(url, hideSecrets, 1000)}\nREASON: ${redactSecrets(
+        errorMessage,
+        hideSecrets
+      )}`,
+      {
+        event: 'retry',
+        method: nodeRequestParams.method,
+        url: formatUrl(url, hideSecrets, 2000),
+        status,
+        attempt,
+        maxAttempts: retry.maxAttempts,
+        delayMs,
+        error: redactSecrets(errorMessage, hideSecrets),
+      },
+    ]);
+    await wait(delayMs, abortSignal);
+  }
+}
+
+function makeProxyAgent(proxy: HttpProxy | false | undefined, url: URL): Agent | undefined {
+  const proxyConfig = url === invalidUrl ? null : getProxyForUrl(proxy, url);
+  return proxyConfig ? createProxyAgent(proxyConfig, url) : undefined;
+}
+
+function makeAgentResolver(agent: HttpRequestOptions<any, any>['agent'], proxy?: HttpProxy | false): HttpAgentResolver {
+  if (typeof agent === 'function') return agent;
+  if (typeof agent !== 'undefined') return () => agent;
+  return (url) => makeProxyAgent(proxy, url);
+}
+
 function getContentEncoding(headers: HttpHeaders): null | 'gzip' | 'br' | 'deflate' {
   const acceptedValues = ['gzip', 'br', 'deflate'];
   const headerValue = (headers['Content-Encoding'] || headers['content-encoding'] || null) as string | null;
   if (headerValue === null) return null;
   if (acceptedValues.includes(headerValue)) return headerValue as 'gzip' | 'br' | 'deflate';
-  else throw Error('Content-Encoding not recognised: ' + headerValue);
+  else throw new HttpRequestError('Content-Encoding not recognised: ' + headerValue, UNSUPPORTED_CONTENT_ENCODING);
+}
+
+function getContentLength(headers: HttpHeaders): number | null {
+  const headerValue = headers['Content-Length'] || headers['content-length'];
+  const contentLength = Number(headerValue);
+  return typeof headerValue !== 'undefined' && Number.isInteger(contentLength) ? contentLength : null;
+}
+
+function makeDecompressStream(contentEncoding: 'gzip' | 'br' | 'deflate' | null): Transform | null {
+  switch (contentEncoding) {
+    case 'br':
+      return createBrotliDecompress();
+    case 'deflate':
+      return createInflate();
+    case 'gzip':
+      return createGunzip();
+    default:
+      return null;
+  }
+}
+
+/*
+Limits are enforced on the bytes as received and after decompression; exceeding either destroys the response
+which aborts the request
+*/
+async function readResponseData(
+  response: ResponseStream,
+  { responseType, responseEncoding, onDownloadProgress, maxResponseBytes, maxDecompressedBytes }: HttpRequestParams
+): Promise<string | Buffer | Readable> {
+  const contentEncoding = getContentEncoding(response.headers);
+  const encoding = responseEncoding || getContentTypeCharset(response.headers) || sniffEncoding;
+  const [wireProgressStream, decodedProgressStream] = onDownloadProgress
+    ? trackDownloadProgress(getContentLength(response.headers), contentEncoding !== null, onDownloadProgress)
+    : [null, null];
+  const stages = [
+    maxResponseBytes !== null
+      ? createLimitStream(
+          maxResponseBytes,
+          () => new ResponseTooLargeError(`Response exceeded ${maxResponseBytes} bytes`)
+        )
+      : null,
+    wireProgressStream,
+    makeDecompressStream(contentEncoding),
+    maxDecompressedBytes !== null
+      ? createLimitStream(
+          maxDecompressedBytes,
+          () =>
+            new ResponseTooLargeError(
+              `Decompressed response exceeded ${maxDecompressedBytes} bytes`,
+              undefined,
+              DECOMPRESSED_RESPONSE_TOO_LARGE
+            )
+        )
+      : null,
+    decodedProgressStream,
+  ].filter((stage): stage is Transform => stage !== null);
+  if (stages.length === 0) return collectResponseData(response, responseType, encoding);
+  /* errors are forwarded to the last stage which is what the caller reads from */
+  pipeline([response, ...stages], () => undefined);
+  return collectResponseData(stages[stages.length - 1], responseType, encoding);
+}
+
+async function collectResponseData(
+  dataStream: Readable,
+  responseType: HttpResponseType,
+  encoding: string | ((head: Buffer) => string)
+): Promise<string | Buffer | Readable> {
+  return isStreamingResponseType(responseType)
+    ? dataStream
+    : responseType === 'binary'
+    ? await collectStreamToBuffer(dataStream)
+    : await collectStreamToString(dataStream, encoding);
 }
 
 function isRedirect(status?: number): boolean {
-  return Number(status) >= 300 && Number(status) < 400;
+  return Number(status) >= 300 && Number(status) < 400 && status !== 304;
+}
+
+/*
+307 and 308 preserve the method and content, 303 changes everything but HEAD to GET,
+the remaining redirects only change POST to GET
+https://www.rfc-editor.org/rfc/rfc9110#section-15.4
+*/
+function getRedirectMethod(method: HttpMethod, status: number): HttpMethod {
+  if (status === 307 || status === 308) return method;
+  if (status === 303) return method === 'HEAD' ? 'HEAD' : 'GET';
+  return method === 'POST' ? 'GET' : method;
+}
+
+function getNextRedirectUrl(
+  followRedirects: HttpRequestParams['followRedirects'],
+  redirect: HttpRedirectInfo
+): URL | null {
+  const decision = typeof followRedirects === 'function' ? followRedirects(redirect) : followRedirects;
+  return decision instanceof URL ? decision : decision ? redirect.to : null;
+}
+
+/*
+Visiting the same url with the same method and cookies twice means the server will keep redirecting
+*/
+function makeVisitKey(method: HttpMethod, url: URL, headers: HttpHeaders): string {
+  return [method, url.toString(), ...(headers.Cookie || [])].join('\n');
+}
+
+function hasResponseBody(method: HttpMethod, status?: number): boolean {
+  return method !== 'HEAD' && status !== 204 && status !== 304 && Number(status) >= 200;
+}
+
+function makeEmptyData(responseType: HttpResponseType): string | Buffer | Readable | null {
+  switch (responseType) {
+    case 'binary':
+      return Buffer.alloc(0);
+    case 'json':
+      return null;
+    case 'stream':
+    case 'sse':
+    case 'ndjson':
+      return createReadableStream('');
+    default:
+      return '';
+  }
 }
 
 function extractCookiesFromHeaders(allHeaders: HttpHeaders, incoming: boolean): [Record<string, string>, HttpHeaders] {
@@ -280,6 +637,13 @@ function makeURL(url?: string | URL): URL {
   }
 }
 
+/* the data is built for the responseType checked at runtime, which the compiler cannot relate to R */
+function toResponseData<R extends HttpResponseType, J>(
+  data: HttpResponseDataType<HttpResponseType, J>
+): HttpResponseDataType<R, J> {
+  return data as HttpResponseDataType<R, J>;
+}
+
 function makeResponseData<T extends HttpRequestDataType, R extends HttpResponseType, J>(
   options: HttpRequestOptions<T, R, J>
 ): HttpRequestResponse<R, J> {
@@ -289,6 +653,11 @@ function makeResponseData<T extends HttpRequestDataType, R extends HttpResponseT
     url: invalidUrl,
     redirectCount: 0,
     redirectUrls: [],
+    redirects: [],
+    attempts: 0,
+    attemptErrors: [],
+    timings: [],
+    cacheStatus: null,
     cookies: {},
     headers: {},
     data: null as unknown as HttpResponseDataType<R, J>,
@@ -322,6 +691,41 @@ function addRefererToHeaders(url: URL, previousUrl: URL, headers: HttpHeaders) {
   }
 }
 
+function makeOrigin(origin: string | URL): string {
+  try {
+    return new URL(origin.toString()).origin;
+  } catch {
+    throw new TypeError(`Invalid trusted origin: ${origin}`);
+  }
+}
+
+/*
+Credentials are only sent to the origin they were meant for unless that origin is explicitly trusted;
+a downgrade from https to http always changes the origin
+https://fetch.spec.whatwg.org/#http-redirect-fetch
+*/
+function isTrustedRedirect(url: URL, previousUrl: URL, { trustedOrigins }: HttpRequestParams): boolean {
+  return url.origin === previousUrl.origin || trustedOrigins.includes(url.origin);
+}
+
+function stripSensitiveHeaders(url: URL, previousUrl: URL, headers: HttpHeaders, requestParams: HttpRequestParams) {
+  const { sensitiveHeaders } = requestParams;
+  if (isTrustedRedirect(url, previousUrl, requestParams)) return;
+  for (const header of Object.keys(headers)) {
+    if (sensitiveHeaders.includes(header.toLowerCase())) delete headers[header];
+  }
+}
+
+/* the generated header replaces any Authorization header passed in and is hidden from logs */
+function setAuthorizationHeader(headers: HttpHeaders, authorization: string | null, hideSecrets: HttpSecret[]) {
+  for (const header of Object.keys(headers)) {
+    if (header.toLowerCase() === 'authorization') delete headers[header];
+  }
+  if (authorization === null) return;
+  headers.Authorization = authorization;
+  hideSecrets.push(authorization);
+}
+
 function isPathAbsolute(str: string): boolean {
   return /^https*:\/\//.test(str);
 }
@@ -335,32 +739,65 @@ function makeRedirectUrl(previous: URL, current?: string): URL {
   }
 }
 
-function formatResponse(response: Omit<HttpRequestResponse<any>, 'request'>) {
+/* formatting is skipped when debug messages are not logged */
+function logDebug(logger: Logger, format: () => [string, string | undefined, LogEvent]) {
+  if (!isLogLevelEnabled(logger, 'debug')) return;
+  const [message, details, event] = format();
+  logger.debug(message, details, event);
+}
+
+function formatUrl(url: URL | string, hideSecrets: HttpSecret[], length: number): string {
+  return limitString(redactSecrets(url.toString(), hideSecrets), length);
+}
+
+function formatResponse(response: Omit<HttpRequestResponse<any>, 'request'>, hideSecrets: HttpSecret[]) {
   return {
     status: response.status,
     statusMessage: response.statusMessage,
-    url: isInvalidUrl(response.url) ? '[INVALID URL]' : response.url.toString(),
-    redirectUrls: response.redirectUrls.map((url) => limitString(url, 2000)),
+    url: isInvalidUrl(response.url) ? '[INVALID URL]' : redactSecrets(response.url.toString(), hideSecrets),
+    redirectUrls: response.redirectUrls.map((url) => formatUrl(url, hideSecrets, 2000)),
     redirectCount: response.redirectCount,
-    headers: response.headers,
-    cookies: response.cookies,
-    data: isReadableStream(response.data)
+    attempts: response.attempts,
+    attemptErrors: response.attemptErrors.map((attemptError) => ({
+      ...attemptError,
+      url: formatUrl(attemptError.url, hideSecrets, 2000),
+      error: typeof attemptError.error === 'string' ? redactSecrets(attemptError.error, hideSecrets) : undefined,
+    })),
+    timings: response.timings.map((timings) => ({ ...timings, url: formatUrl(timings.url, hideSecrets, 2000) })),
+    cacheStatus: response.cacheStatus,
+    headers: redactHeaders(response.headers, hideSecrets),
+    cookies: redactValue(response.cookies, hideSecrets),
+    data: isAsyncIterable(response.data)
       ? '[STREAM]'
       : isBinary(response.data)
       ? '[BINARY]'
       : typeof response.data === 'string'
-      ? limitString('' + response.data, 2000)
-      : response.data,
+      ? limitString(redactSecrets(response.data, hideSecrets), 2000)
+      : redactValue(response.data, hideSecrets),
   };
 }
 
+function redactHeaders(headers: HttpHeaders, hideSecrets: HttpSecret[]): HttpHeaders {
+  const redacted: HttpHeaders = {};
+  for (const [name, value] of Object.entries(headers)) {
+    redacted[name] = Array.isArray(value)
+      ? value.map((item) => redactSecrets(item, hideSecrets))
+      : typeof value === 'string'
+      ? redactSecrets(value, hideSecrets)
+      : value;
+  }
+  return redacted;
+}
+
 function formatRequest(
   request: HttpRequestResponse<any>['request'],
-  hideSecrets: string[],
+  hideSecrets: HttpSecret[],
   requestDataType: HttpRequestDataType
 ) {
   let dataString = isReadableStream(request.data)
     ? '[STREAM]'
+    : requestDataType === 'multipart'
+    ? limitString(JSON.stringify(summarizeMultipartData(request.data)), 2000)
     : isBinary(request.data)
     ? '[BINARY]'
     : limitString(typeof request.data === 'string' ? request.data : JSON.stringify(request.data), 2000);
@@ -371,27 +808,41 @@ function formatRequest(
     : limitString(request.formattedData, 2000);
 
   if (requestDataType !== 'binary' && requestDataType !== 'stream') {
-    for (const secret of hideSecrets) {
-      dataString = dataString.replace(requestDataType === 'raw' ? secret : secret.replace(/"/g, '\\"'), '[SECRET]');
-      formattedDataString = formattedDataString.replace(
-        requestDataType === 'form'
-          ? encodeURIComponent(secret)
-          : requestDataType === 'json'
-          ? secret.replace(/"/g, '\\"')
-          : secret,
-        '[SECRET]'
-      );
-    }
+    dataString = redactSecrets(dataString, hideSecrets);
+    formattedDataString = redactSecrets(formattedDataString, hideSecrets);
   }
   return {
     method: request.method,
-    url: request.url.toString(),
+    url: redactSecrets(request.url.toString(), hideSecrets),
     timeout: request.timeout,
     dataType: request.dataType,
     data: dataString,
     formattedData: formattedDataString,
-    headers: request.headers,
-    cookies: request.cookies,
+    headers: redactHeaders(request.headers, hideSecrets),
+    cookies: redactValue(request.cookies, hideSecrets),
+  };
+}
+
+/*
+The next connection of an sse response is sent with the options given to httpRequest so middleware runs again, e.g. to
+refresh an expired token; it shares the cookie jar of the first connection and follows redirects again
+*/
+function makeEventStreamReconnect(
+  options: HttpRequestOptions<any, any, any>,
+  cookieJar: CookieJar
+): EventStreamReconnect {
+  return async (lastEventId) => {
+    const headers: HttpHeaders = { ...options.headers };
+    if (lastEventId.length > 0) headers['Last-Event-ID'] = lastEventId;
+    const response = await httpRequest({
+      ...options,
+      responseType: 'stream',
+      headers,
+      cookieJar,
+      cookies: undefined,
+      validateStatus: '2xx',
+    });
+    return response.status === 204 ? null : response.data;
   };
 }
 
@@ -399,134 +850,319 @@ export async function httpRequest<T extends HttpRequestDataType, R extends HttpR
   options: HttpRequestOptions<T, R, J>
 ): Promise<HttpRequestResponse<R, J>> {
   if (typeof options !== 'object') throw new TypeError('options must be an object with at least url property defined');
+  if (options.middleware && options.middleware.length > 0) {
+    return runMiddleware(options.middleware, options, (handlerOptions) => sendHttpRequest(handlerOptions, options));
+  }
+  return sendHttpRequest(options, options);
+}
+
+/* originalOptions are the options passed to httpRequest before middleware changed them */
+async function sendHttpRequest<T extends HttpRequestDataType, R extends HttpResponseType, J>(
+  options: HttpRequestOptions<T, R, J>,
+  originalOptions: HttpRequestOptions<T, R, J>
+): Promise<HttpRequestResponse<R, J>> {
+  const startedAt = performance.now();
   const [requestParams, cookieJar, url, nodeRequestParams, hideSecrets] = makeOptions(options);
   const {
     formattedData,
     maxRedirects,
     responseType,
     logger,
-    makeRequest,
     validateJson,
     validateStatus,
     assertNonEmptyResponse,
+    cache,
+    auth,
+    followRedirects,
+    streamBodyChunks,
   } = requestParams;
+  if (auth && url !== invalidUrl) {
+    const authorization = await getAuthorization(auth, nodeRequestParams.method, url);
+    setAuthorizationHeader(nodeRequestParams.headers, authorization, hideSecrets);
+  }
   const responseData = makeResponseData(options);
   responseData.request = makeRequestData(requestParams, url, nodeRequestParams, options.data);
+  /* also used for errors thrown while streaming the response data after it was returned */
+  const attachRequestData = <E extends HttpRequestError | ErrorWithStack>(err: E): E => {
+    const { request, ...response } = responseData;
+    err.request = formatRequest(request, hideSecrets, requestParams.dataType);
+    err.response = formatResponse(response, hideSecrets);
+    return err;
+  };
   if (url === invalidUrl) {
-    throw makeHttpRequestError(new Error('Invalid Url'), responseData);
+    throw attachRequestData(new InvalidUrlError('Invalid Url', responseData));
   }
+  const deadline = createDeadline(requestParams.totalTimeout, options.abortSignal);
+  nodeRequestParams.signal = deadline.signal;
+  const har = options.har || null;
+  let harHop: HarHop | null = null;
   try {
     let redirectUrl = url;
     let response: ResponseStream;
-    let keepMethodAndData = nodeRequestParams.method !== 'GET';
+    let sendData = methodAllowsBody(nodeRequestParams.method);
+    let bodyData = formattedData;
+    let authAllowed = true;
+    const visited = new Set([makeVisitKey(nodeRequestParams.method, url, nodeRequestParams.headers)]);
     do {
-      if (!keepMethodAndData) {
-        nodeRequestParams.method = 'GET';
-        nodeRequestParams.headers['Content-Length'] = 0;
-        delete nodeRequestParams.headers['Content-Type'];
-      }
-      const [responsePromise, responseCallback] = callbackPromise<ResponseStream>();
       if (responseData.redirectCount === 0) {
-        logger.debug(
-          `${nodeRequestParams.method} ${limitString(url, 200)}`,
-          JSON.stringify(formatRequest(responseData.request, hideSecrets, requestParams.dataType), null, 2)
-        );
+        logDebug(logger, () => [
+          `${nodeRequestParams.method} ${formatUrl(url, hideSecrets, 200)}`,
+          JSON.stringify(formatRequest(responseData.request, hideSecrets, requestParams.dataType), null, 2),
+          { event: 'request', method: nodeRequestParams.method, url: formatUrl(url, hideSecrets, 2000) },
+        ]);
       }
-      const request = makeRequest(redirectUrl, nodeRequestParams, responseCallback);
-      await asyncPipeline(createReadableStream(keepMethodAndData ? formattedData : ''), request);
-      response = await new Promise((resolve, reject) => {
-        let settled = false;
-        request.on('error', (err) => {
-          if (!settled) {
-            settled = true;
-            reject(err);
-          }
-        });
-        responsePromise.then(
-          (res) => resolve(res),
-          (err) => reject(err)
+      const hopUrl = redirectUrl;
+      let hopData = sendData ? bodyData : '';
+      let hop: HarHop | null = null;
+      if (auth && auth.type === 'digest' && authAllowed && responseData.redirectCount > 0) {
+        const authorization = await getAuthorization(auth, nodeRequestParams.method, hopUrl);
+        setAuthorizationHeader(nodeRequestParams.headers, authorization, hideSecrets);
+      }
+      /* sent twice when a Digest challenge is answered */
+      for (let challenged = false; ; challenged = true) {
+        addHeaderSecrets(requestParams.redact, hideSecrets, nodeRequestParams.headers);
+        addUrlSecrets(requestParams.redact, hideSecrets, hopUrl);
+        const currentHop: HarHop | null = har
+          ? {
+              startedAt: Date.now(),
+              method: nodeRequestParams.method,
+              url: hopUrl,
+              headers: { ...nodeRequestParams.headers },
+              data: hopData,
+            }
+          : null;
+        hop = currentHop;
+        harHop = currentHop;
+        const data = hopData;
+        const timingsCount = responseData.timings.length;
+        const send = () => {
+          if (currentHop) currentHop.headers = { ...nodeRequestParams.headers };
+          return sendRequestWithRetry(requestParams, hopUrl, nodeRequestParams, data, responseData, deadline.signal);
+        };
+        response = await deadline.race(
+          cache
+            ? cache.send(
+                nodeRequestParams.method,
+                hopUrl,
+                nodeRequestParams.headers,
+                !isStreamingResponseType(responseType),
+                send,
+                requestParams.maxResponseBytes
+              )
+            : send()
         );
-      });
-      cookieJar.collectCookiesFromResponse(redirectUrl, response.headers);
+        deadline.destroyOnExpiry(response);
+        addHeaderSecrets(requestParams.redact, hideSecrets, response.headers);
+        if (currentHop) {
+          currentHop.responseAt = Date.now();
+          currentHop.response = response;
+          /* the last attempt sent the response, cached responses have no timings */
+          if (responseData.timings.length > timingsCount) {
+            currentHop.timings = responseData.timings[responseData.timings.length - 1];
+          }
+        }
+        cookieJar.collectCookiesFromResponse(redirectUrl, response.headers);
+        const canResend = !isReadableStream(hopData) || !!streamBodyChunks;
+        if (challenged || !auth || !authAllowed || response.statusCode !== 401 || !canResend) break;
+        const authorization = answerAuthChallenge(auth, nodeRequestParams.method, hopUrl, response.headers);
+        if (authorization === null) break;
+        response.resume();
+        if (har && currentHop) {
+          har.record(currentHop, hideSecrets);
+          harHop = null;
+        }
+        setAuthorizationHeader(nodeRequestParams.headers, authorization, hideSecrets);
+        nodeRequestParams.headers.Cookie = cookieJar.getRequestCookies(hopUrl, hopUrl.host);
+        if (isReadableStream(hopData) && streamBodyChunks) hopData = Buffer.concat(streamBodyChunks);
+        logDebug(logger, () => [
+          `AUTH CHALLENGE (401) ${formatUrl(hopUrl, hideSecrets, 200)}`,
+          undefined,
+          {
+            event: 'auth_challenge',
+            method: nodeRequestParams.method,
+            url: formatUrl(hopUrl, hideSecrets, 2000),
+            status: 401,
+          },
+        ]);
+      }
       if (!isRedirect(response.statusCode)) break;
       const originalUrl = redirectUrl;
-      redirectUrl = makeRedirectUrl(originalUrl, response.headers.location);
-      addRefererToHeaders(redirectUrl, originalUrl, nodeRequestParams.headers);
-      if (redirectUrl === invalidUrl) {
-        throw makeHttpRequestError(new Error('Redirected to invalid URL'), responseData);
+      const status = response.statusCode as number;
+      const locationUrl = makeRedirectUrl(originalUrl, response.headers.location);
+      if (locationUrl === invalidUrl) {
+        throw new InvalidUrlError('Redirected to invalid URL', responseData);
       }
+      const redirectInfo: HttpRedirectInfo = {
+        from: originalUrl,
+        to: locationUrl,
+        status,
+        method: nodeRequestParams.method,
+        headers: response.headers,
+      };
+      const nextUrl = getNextRedirectUrl(followRedirects, redirectInfo);
+      if (!nextUrl) break;
+      response.resume();
+      if (har && hop) {
+        har.record(hop, hideSecrets);
+        harHop = null;
+      }
+      redirectUrl = nextUrl;
+      redirectInfo.to = redirectUrl;
+      nodeRequestParams.agent = requestParams.getAgent(redirectUrl);
+      authAllowed = authAllowed && isTrustedRedirect(redirectUrl, originalUrl, requestParams);
+      addRefererToHeaders(redirectUrl, originalUrl, nodeRequestParams.headers);
+      stripSensitiveHeaders(redirectUrl, originalUrl, nodeRequestParams.headers, requestParams);
       nodeRequestParams.headers.Host = redirectUrl.hostname;
       nodeRequestParams.headers.Origin = redirectUrl.origin;
       responseData.redirectUrls.push(redirectUrl.toString());
+      responseData.redirects.push({
+        url: originalUrl.toString(),
+        location: redirectUrl.toString(),
+        status,
+        method: nodeRequestParams.method,
+        headers: response.headers,
+        setCookie: getCookieHeaders(response.headers),
+      });
       nodeRequestParams.headers.Cookie = cookieJar.getRequestCookies(redirectUrl, originalUrl.host);
-      logger.debug(
-        `REDIRECT (${response.statusCode}) TO ${limitString(redirectUrl, 200)}`,
-        `FROM: ${limitString(originalUrl, 1000)}\nTO: ${limitString(redirectUrl, 1000)}`
-      );
-      keepMethodAndData = response.statusCode === 307 || response.statusCode === 308;
+      logDebug(logger, () => [
+        `REDIRECT (${status}) TO ${formatUrl(redirectUrl, hideSecrets, 200)}`,
+        `FROM: ${formatUrl(originalUrl, hideSecrets, 1000)}\nTO: ${formatUrl(redirectUrl, hideSecrets, 1000)}`,
+        {
+          event: 'redirect',
+          method: redirectInfo.method,
+          url: formatUrl(originalUrl, hideSecrets, 2000),
+          location: formatUrl(redirectUrl, hideSecrets, 2000),
+          status,
+        },
+      ]);
+      if (options.onRedirect) {
+        options.onRedirect(redirectInfo);
+      }
+      const redirectMethod = getRedirectMethod(nodeRequestParams.method, status);
+      if (redirectMethod !== nodeRequestParams.method) {
+        nodeRequestParams.method = redirectMethod;
+        sendData = false;
+        delete nodeRequestParams.headers['Content-Length'];
+        delete nodeRequestParams.headers['Content-Type'];
+        delete nodeRequestParams.headers['Transfer-Encoding'];
+      } else if (sendData && isReadableStream(formattedData)) {
+        if (!streamBodyChunks) {
+          throw new HttpRequestError(
+            `Unable to resend stream body after ${status} redirect; set bufferStreamBody to allow it`,
+            STREAM_BODY_NOT_REPLAYABLE,
+            responseData
+          );
+        }
+        bodyData = Buffer.concat(streamBodyChunks);
+      }
+      const visitKey = makeVisitKey(nodeRequestParams.method, redirectUrl, nodeRequestParams.headers);
+      if (visited.has(visitKey)) {
+        throw new RedirectLoopError(
+          `Redirect loop detected at ${formatUrl(redirectUrl, hideSecrets, 1000)}`,
+          responseData
+        );
+      }
+      visited.add(visitKey);
     } while (++responseData.redirectCount < maxRedirects);
     if (responseData.redirectCount >= maxRedirects) {
-      throw makeHttpRequestError(new Error('Max redirect count exceeded'), responseData);
+      throw new TooManyRedirectsError('Max redirect count exceeded', responseData);
     }
-    if (validateStatus && response.statusCode !== validateStatus) {
-      throw makeHttpRequestError(
-        new Error(`Response status ${response.statusCode} not matching expected status ${validateStatus}`),
-        responseData
-      );
+    const status = response.statusCode as number;
+    if (
+      validateStatus &&
+      !isValidStatus(validateStatus, {
+        status,
+        statusMessage: response.statusMessage || '',
+        method: nodeRequestParams.method,
+        url: redirectUrl,
+        headers: response.headers,
+      })
+    ) {
+      throw new HttpStatusError(formatStatusMismatch(validateStatus, status), status, responseData);
     }
 
     const [cookies, headers] = extractCookiesFromHeaders(response.headers, true);
-    let dataStream: Readable | Transform = response;
-    const contentEncoding = getContentEncoding(response.headers);
-    if (contentEncoding === 'br') {
-      const decompress = createBrotliDecompress();
-      response.pipe(decompress);
-      dataStream = decompress;
-    } else if (contentEncoding === 'deflate') {
-      const decompress = createInflate();
-      response.pipe(decompress);
-      dataStream = decompress;
-    } else if (contentEncoding === 'gzip') {
-      const decompress = createGunzip();
-      response.pipe(decompress);
-      dataStream = decompress;
+    const hasBody = hasResponseBody(nodeRequestParams.method, response.statusCode);
+    if (!hasBody) response.resume();
+    const contentLength = getContentLength(response.headers);
+    if (
+      hasBody &&
+      requestParams.maxResponseBytes !== null &&
+      contentLength !== null &&
+      contentLength > requestParams.maxResponseBytes
+    ) {
+      response.destroy();
+      throw new ResponseTooLargeError(
+        `Response Content-Length ${contentLength} exceeds ${requestParams.maxResponseBytes} bytes`,
+        responseData
+      );
+    }
+    const data = hasBody
+      ? await deadline
+          .race(readResponseData(response, requestParams))
+          .catch((err) => Promise.reject(makeNetworkError(err)))
+      : makeEmptyData(responseType);
+    addDataSecrets(requestParams.redact, hideSecrets, data);
+    if (isReadableStream(data)) {
+      deadline.destroyOnExpiry(data);
+      data.once('close', deadline.clear);
+    } else {
+      deadline.clear();
     }
-    const data =
-      responseType === 'stream'
-        ? dataStream
-        : responseType === 'binary'
-        ? await collectStreamToBuffer(dataStream)
-        : await collectStreamToString(dataStream);
-    if (assertNonEmptyResponse && responseType !== 'stream' && (data as string).length === 0) {
-      throw makeHttpRequestError(new Error('Empty response'), responseData);
+    if (har && harHop) {
+      har.record(harHop, hideSecrets, { body: data });
+      harHop = null;
+    }
+    if (assertNonEmptyResponse && !isStreamingResponseType(responseType) && (!data || (data as string).length === 0)) {
+      throw new ResponseValidationError('Empty response', responseData, EMPTY_RESPONSE);
     }
     responseData.status = response.statusCode as number;
     responseData.statusMessage = response.statusMessage || '';
+    responseData.cacheStatus = response.cacheStatus || null;
     responseData.url = redirectUrl;
     responseData.cookies = cookies;
     responseData.headers = headers;
     responseData.data = data as any;
-    if (responseType === 'json') {
+    if (responseType === 'ndjson') {
+      const onInvalidJson = (err: unknown) =>
+        attachRequestData(new InvalidJsonError('Unable to parse response line as JSON', undefined, err));
+      responseData.data = toResponseData<R, J>(parseNdjson(data as Readable, onInvalidJson, options.abortSignal));
+    }
+    if (responseType === 'sse') {
+      const reconnect = hasBody ? makeEventStreamReconnect(originalOptions, cookieJar) : null;
+      responseData.data = toResponseData<R, J>(
+        iterateServerSentEvents(data as Readable, requestParams.reconnect, reconnect, options.abortSignal)
+      );
+    }
+    if (responseType === 'json' && hasBody) {
       try {
         responseData.data = JSON.parse(data as string);
-      } catch {
-        throw new Error('Unable to parse response data as JSON');
+      } catch (err) {
+        throw new InvalidJsonError('Unable to parse response data as JSON', responseData, err);
       }
     }
     if (responseType === 'json' && validateJson && !validateJson(responseData.data)) {
-      throw makeHttpRequestError(new Error(`Invalid response JSON`), responseData);
+      throw new ResponseValidationError(`Invalid response JSON`, responseData);
     }
-    logger.debug(
-      `RESPONSE (${responseData.status}) ${limitString(redirectUrl, 200)} `,
-      JSON.stringify(formatResponse(responseData), null, 2)
-    );
+    logDebug(logger, () => [
+      `RESPONSE (${responseData.status}) ${formatUrl(redirectUrl, hideSecrets, 200)} `,
+      JSON.stringify(formatResponse(responseData, hideSecrets), null, 2),
+      {
+        event: 'response',
+        method: nodeRequestParams.method,
+        url: formatUrl(redirectUrl, hideSecrets, 2000),
+        status: responseData.status,
+        durationMs: Math.round(performance.now() - startedAt),
+        attempts: responseData.attempts,
+        redirectCount: responseData.redirectCount,
+        cacheStatus: responseData.cacheStatus,
+      },
+    ]);
     return responseData;
   } catch (err) {
-    if (isError(err)) {
-      const { request, ...response } = responseData;
-      err.request = formatRequest(request, hideSecrets, requestParams.dataType);
-      err.response = formatResponse(response);
-    }
+    deadline.clear();
+    if (har && harHop) har.record(harHop, hideSecrets, { error: parseError(err)[0] });
+    if (isError(err)) attachRequestData(err);
     throw err;
   }
 }
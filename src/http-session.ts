@@ -16,17 +16,30 @@ import type {
   HttpResponseType,
   MakeHttpRequest,
   HttpHeaders,
+  HttpRetryOptions,
+  HttpAuth,
+  HttpMiddleware,
+  HttpProxy,
+  HttpStatusValidator,
+  HttpRedactionPolicy,
 } from './types/http-request';
 import type { Logger } from './types/logger';
+import type { HttpPaginationStrategy } from './types/paginate';
 import { request as nodeHttpsRequest } from 'node:https';
 import { request as nodeHttpRequest } from 'node:http';
 import { httpRequest } from './http-request';
-import { Agent as HttpAgent } from 'http';
+import { Agent as HttpAgent, AgentOptions } from 'http';
 import { Agent as HttpsAgent } from 'https';
 import { CookieJar } from './cookies/jar';
 import { parseError } from './lib/parseError';
 import { noOpLogger } from './lib/noOpLogger';
+import { createChildLogger } from './logger';
+import { iteratePages } from './paginate';
 import { UtilityClass } from './lib/UtilityClass';
+import { createProxyAgent, getProxyForUrl } from './proxy';
+import { mergeRedactionPolicies } from './redact';
+import type { HttpCache } from './cache/http-cache';
+import type { HarRecorder } from './har';
 import { merge } from './lib/merge';
 import { Cookie } from './types/cookies';
 
@@ -46,6 +59,21 @@ const DEFAULT_SESSION_PARAMS: HttpSessionParams<unknown, void, void> = {
   keepConnectionAlive: true,
   maxSocketsPerHost: 5,
   connectionLifespanMs: 30_000,
+  retry: null,
+  auth: null,
+  middleware: [],
+  proxy: null,
+  cache: null,
+  har: null,
+  maxResponseBytes: null,
+  maxDecompressedBytes: null,
+  connectTimeout: null,
+  responseTimeout: null,
+  totalTimeout: null,
+  sensitiveHeaders: [],
+  trustedOrigins: [],
+  validateStatus: null,
+  redact: null,
   enhanceLoginMethods: undefined,
   enhanceLogoutMethods: undefined,
   _makeHttpRequest: nodeHttpRequest,
@@ -61,6 +89,21 @@ export class HttpSession<S, E, E2> extends UtilityClass<HttpSessionStatusData> {
   protected lockoutTimeMs: number;
   protected heartbeatUrl: string | null;
   protected heartbeatIntervalMs: number;
+  protected retry: Partial<HttpRetryOptions> | null;
+  protected auth: HttpAuth | null;
+  protected middleware: HttpMiddleware[];
+  protected proxy: HttpProxy | null;
+  protected cache: HttpCache | null;
+  protected har: HarRecorder | null;
+  protected maxResponseBytes: number | null;
+  protected maxDecompressedBytes: number | null;
+  protected connectTimeout: number | null;
+  protected responseTimeout: number | null;
+  protected totalTimeout: number | null;
+  protected sensitiveHeaders: string[];
+  protected trustedOrigins: (string | URL)[];
+  protected validateStatus: HttpStatusValidator | null;
+  protected redact: Partial<HttpRedactionPolicy> | null;
   protected logger: Logger;
   protected enhanceLoginMethods?: (ref: symbol) => Promise<E>;
   protected enhanceLogoutMethods?: () => Promise<E2>;
@@ -69,6 +112,7 @@ export class HttpSession<S, E, E2> extends UtilityClass<HttpSessionStatusData> {
   protected defaultHeaders: HttpHeaders = {};
 
   protected allowMultipleRequests: boolean;
+  protected requestCount = 0;
   protected lastUrl: URL | undefined = undefined;
   protected requestQueue: RequestObject<S>[] = [];
   protected loginPromise: Promise<any> | null = null;
@@ -79,6 +123,8 @@ export class HttpSession<S, E, E2> extends UtilityClass<HttpSessionStatusData> {
   protected cookieJar: CookieJar;
   protected httpAgent: HttpAgent;
   protected httpsAgent: HttpsAgent;
+  protected agentOptions: AgentOptions;
+  protected proxyAgents: Map<string, HttpAgent> = new Map();
 
   constructor(params: Partial<HttpSessionParams<S, E, E2>> = {}) {
     super();
@@ -92,14 +138,29 @@ export class HttpSession<S, E, E2> extends UtilityClass<HttpSessionStatusData> {
     this.heartbeatUrl = normalizedParams.heartbeatUrl;
     this.heartbeatIntervalMs = normalizedParams.heartbeatIntervalMs;
     this.allowMultipleRequests = normalizedParams.allowMultipleRequests;
-    this.logger = normalizedParams.logger;
-    const agentOptions = {
+    this.logger = createChildLogger(normalizedParams.logger, { sessionName: normalizedParams.name });
+    this.retry = normalizedParams.retry;
+    this.auth = normalizedParams.auth;
+    this.middleware = normalizedParams.middleware.slice(0);
+    this.proxy = normalizedParams.proxy;
+    this.cache = normalizedParams.cache;
+    this.har = normalizedParams.har;
+    this.maxResponseBytes = normalizedParams.maxResponseBytes;
+    this.maxDecompressedBytes = normalizedParams.maxDecompressedBytes;
+    this.connectTimeout = normalizedParams.connectTimeout;
+    this.responseTimeout = normalizedParams.responseTimeout;
+    this.totalTimeout = normalizedParams.totalTimeout;
+    this.sensitiveHeaders = normalizedParams.sensitiveHeaders.slice(0);
+    this.trustedOrigins = normalizedParams.trustedOrigins.slice(0);
+    this.validateStatus = normalizedParams.validateStatus;
+    this.redact = normalizedParams.redact;
+    this.agentOptions = {
       keepAlive: normalizedParams.keepConnectionAlive,
       maxSockets: normalizedParams.maxSocketsPerHost,
       keepAliveMsecs: normalizedParams.connectionLifespanMs,
     };
-    this.httpAgent = new HttpAgent(agentOptions);
-    this.httpsAgent = new HttpsAgent(agentOptions);
+    this.httpAgent = new HttpAgent(this.agentOptions);
+    this.httpsAgent = new HttpsAgent(this.agentOptions);
     this.setDefaultHeaders(normalizedParams.defaultHeaders);
     this.cookieJar = new CookieJar();
     this.cookieJar.addCookies(normalizedParams.cookies);
@@ -128,11 +189,17 @@ export class HttpSession<S, E, E2> extends UtilityClass<HttpSessionStatusData> {
     this.credentials = creds;
   }
 
+  public use(...middleware: HttpMiddleware[]) {
+    this.middleware.push(...middleware);
+  }
+
   public async shutdown() {
     this.clearAllTimeouts();
     this.stopHeartbeat();
     this.httpAgent.destroy();
     this.httpsAgent.destroy();
+    this.proxyAgents.forEach((agent) => agent.destroy());
+    this.proxyAgents.clear();
     if (this.status.isLoggedIn) await this.logoutWrapper();
   }
 
@@ -190,6 +257,32 @@ export class HttpSession<S, E, E2> extends UtilityClass<HttpSessionStatusData> {
     });
   }
 
+  /**
+   * Paginates with a session of its own; the session is held until the iteration ends, fails or is broken off
+   */
+  public paginate<T extends HttpRequestDataType, R extends HttpResponseType = 'json', J = any>(
+    options: HttpRequestOptions<T, R, J>,
+    strategy: HttpPaginationStrategy & { itemsPath: string },
+    requestSessionOptions?: RequestSesssionOptions
+  ): AsyncIterableIterator<unknown>;
+  public paginate<T extends HttpRequestDataType, R extends HttpResponseType = 'json', J = any>(
+    options: HttpRequestOptions<T, R, J>,
+    strategy: HttpPaginationStrategy,
+    requestSessionOptions?: RequestSesssionOptions
+  ): AsyncIterableIterator<HttpRequestResponse<R, J>>;
+  public async *paginate(
+    options: HttpRequestOptions<any, any, any>,
+    strategy: HttpPaginationStrategy,
+    requestSessionOptions?: RequestSesssionOptions
+  ): AsyncGenerator<any, void, undefined> {
+    const session = await this.requestSession(requestSessionOptions);
+    try {
+      yield* session.paginate(options, strategy);
+    } finally {
+      if (!session.wasReleased) await session.release();
+    }
+  }
+
   protected loginMethods: LoginMethods<S, any> = {
     getCredentials: () => this.credentials,
     setState: this.setState.bind(this),
@@ -282,18 +375,68 @@ export class HttpSession<S, E, E2> extends UtilityClass<HttpSessionStatusData> {
   protected async request<T extends HttpRequestDataType, R extends HttpResponseType>(
     options: HttpRequestOptions<T, R>
   ): Promise<HttpRequestResponse<R>> {
-    const { agent, cookieJar, headers, logger, previousUrl, url: originalUrl, ...otherOptions } = options;
+    const {
+      agent,
+      cookieJar,
+      headers,
+      logger,
+      previousUrl,
+      retry,
+      auth,
+      middleware,
+      proxy,
+      cache,
+      har,
+      maxResponseBytes,
+      maxDecompressedBytes,
+      connectTimeout,
+      responseTimeout,
+      totalTimeout,
+      sensitiveHeaders,
+      trustedOrigins,
+      validateStatus,
+      redact,
+      url: originalUrl,
+      ...otherOptions
+    } = options;
     const url = typeof originalUrl === 'string' ? new URL(originalUrl) : originalUrl;
-    const isHttps = url.protocol === 'https:';
     this.stopHeartbeat();
     const response = await httpRequest({
       url,
-      agent: agent || (isHttps ? this.httpsAgent : (this.httpAgent as HttpsAgent)),
+      agent: agent || ((hopUrl: URL) => this.getAgent(hopUrl, typeof proxy === 'undefined' ? this.proxy : proxy)),
       cookieJar: cookieJar || this.cookieJar,
       headers: headers ? { ...this.defaultHeaders, ...headers } : this.defaultHeaders,
       logger: logger || this.logger,
       previousUrl: previousUrl || this.lastUrl,
-      _request: isHttps ? this._makeHttpsRequest : this._makeHttpRequest,
+      retry: typeof retry === 'undefined' ? this.retry || false : retry,
+      auth: typeof auth === 'undefined' ? this.auth || false : auth,
+      middleware: middleware ? this.middleware.concat(middleware) : this.middleware,
+      cache: typeof cache === 'undefined' ? this.cache || false : cache,
+      har: typeof har === 'undefined' ? this.har || false : har,
+      maxResponseBytes:
+        typeof maxResponseBytes === 'undefined' && this.maxResponseBytes !== null
+          ? this.maxResponseBytes
+          : maxResponseBytes,
+      maxDecompressedBytes:
+        typeof maxDecompressedBytes === 'undefined' && this.maxDecompressedBytes !== null
+          ? this.maxDecompressedBytes
+          : maxDecompressedBytes,
+      connectTimeout:
+        typeof connectTimeout === 'undefined' && this.connectTimeout !== null ? this.connectTimeout : connectTimeout,
+      responseTimeout:
+        typeof responseTimeout === 'undefined' && this.responseTimeout !== null
+          ? this.responseTimeout
+          : responseTimeout,
+      totalTimeout:
+        typeof totalTimeout === 'undefined' && this.totalTimeout !== null ? this.totalTimeout : totalTimeout,
+      sensitiveHeaders: sensitiveHeaders ? this.sensitiveHeaders.concat(sensitiveHeaders) : this.sensitiveHeaders,
+      trustedOrigins: trustedOrigins ? this.trustedOrigins.concat(trustedOrigins) : this.trustedOrigins,
+      validateStatus: typeof validateStatus === 'undefined' ? this.validateStatus || false : validateStatus,
+      redact: redact ? mergeRedactionPolicies(this.redact, redact) : this.redact || undefined,
+      _request: (hopUrl, requestOptions, cb) => {
+        const makeRequest = hopUrl.protocol === 'https:' ? this._makeHttpsRequest : this._makeHttpRequest;
+        return makeRequest(hopUrl, requestOptions, cb);
+      },
       ...otherOptions,
     });
     this.heartbeat();
@@ -301,6 +444,18 @@ export class HttpSession<S, E, E2> extends UtilityClass<HttpSessionStatusData> {
     return response;
   }
 
+  protected getAgent(url: URL, proxy: HttpProxy | null | false): HttpsAgent {
+    const proxyConfig = getProxyForUrl(proxy, url);
+    if (!proxyConfig) return url.protocol === 'https:' ? this.httpsAgent : (this.httpAgent as HttpsAgent);
+    const key = url.protocol + proxyConfig.url.href + (proxyConfig.authorization || '');
+    let agent = this.proxyAgents.get(key);
+    if (!agent) {
+      agent = createProxyAgent(proxyConfig, url, this.agentOptions);
+      this.proxyAgents.set(key, agent);
+    }
+    return agent as HttpsAgent;
+  }
+
   protected async releaseSession() {
     this.lastUrl = undefined;
     const inQueue = this.status.inQueue - 1;
@@ -340,6 +495,7 @@ export class HttpSession<S, E, E2> extends UtilityClass<HttpSessionStatusData> {
   }
 
   protected getSessionObject(ref: symbol, onRelease?: (ref: symbol) => any): HttpSessionObject<S> {
+    const logger = createChildLogger(this.logger, { requestId: ++this.requestCount, ref: ref.description });
     const wrap = <A extends any[], R>(
       fnName: string,
       fn: (...args: A) => R,
@@ -359,9 +515,15 @@ export class HttpSession<S, E, E2> extends UtilityClass<HttpSessionStatusData> {
         return fn(...args);
       };
     };
+    const request = wrap('request', (options: HttpRequestOptions<any, any, any>) =>
+      this.request({ ...options, logger: options.logger || logger })
+    );
     const sessionObject = {
       getState: wrap('getState', () => this.state as S),
-      request: wrap('request', (options) => this.request(options)),
+      request,
+      paginate: wrap('paginate', (options: HttpRequestOptions<any, any, any>, strategy: HttpPaginationStrategy) =>
+        iteratePages(request, options, strategy)
+      ),
       release: wrap('release', () => this.releaseSession(), true),
       serialize: wrap('serialize', () => this.serialize()),
       invalidate: wrap('invalidate', (err) => this.invalidateSession(err), true),
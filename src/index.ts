@@ -1,4 +1,25 @@
 export type { Cookie } from './types/cookies';
+export type {
+  HttpCursorPagination,
+  HttpLinkPagination,
+  HttpNextUrlPagination,
+  HttpOffsetPagination,
+  HttpPagePagination,
+  HttpPaginate,
+  HttpPaginationStrategy,
+} from './types/paginate';
+export type { LogEvent, LogLevel, Logger, LoggerFunction } from './types/logger';
+export type { HttpCacheEntry, HttpCacheStatus, HttpCacheStore } from './types/cache';
+export type { Har, HarEntry, HarRecorderOptions } from './types/har';
+export type { HtmlForm, HtmlFormEnctype, HtmlFormFields, HtmlFormValues, SubmitFormOptions } from './types/forms';
+export type {
+  OAuth2ClientAuthentication,
+  OAuth2GrantType,
+  OAuth2SessionState,
+  OAuth2Token,
+  OAuth2TokenManagerOptions,
+} from './types/oauth2';
+export type { ReplayCassette, ReplayInteraction, ReplayMode, ReplayTransportOptions } from './types/replay';
 export type {
   HttpMethod,
   HttpRequestData,
@@ -7,6 +28,38 @@ export type {
   HttpRequestResponse,
   HttpResponseDataType,
   HttpResponseType,
+  HttpRetryOptions,
+  HttpRetryContext,
+  HttpReconnectOptions,
+  HttpServerSentEvent,
+  HttpRedactionPolicy,
+  HttpSecret,
+  HttpAuth,
+  HttpBasicAuth,
+  HttpBearerAuth,
+  HttpDigestAuth,
+  HttpAttemptError,
+  HttpMultipartData,
+  HttpMultipartFile,
+  HttpMultipartValue,
+  HttpMiddleware,
+  HttpMiddlewareContext,
+  HttpMiddlewareNext,
+  HttpRedirectInfo,
+  HttpRedirect,
+  HttpProxy,
+  HttpProxyOptions,
+  HttpAgentResolver,
+  HttpQuery,
+  HttpQueryValue,
+  HttpQueryArrayFormat,
+  HttpProgress,
+  HttpDownloadProgress,
+  HttpStatusContext,
+  HttpStatusRange,
+  HttpStatusValidator,
+  HttpTimings,
+  HttpTimeoutPhase,
 } from './types/http-request';
 export type {
   HttpSessionRequest,
@@ -16,6 +69,28 @@ export type {
   HttpSessionSerializedData,
 } from './types/http-session';
 
-export { httpRequest } from './http-request';
+export { httpRequest, isHttpRequestError } from './http-request';
 export { HttpSession } from './http-session';
+export { createChildLogger } from './logger';
+export { paginate } from './paginate';
 export { CookieJar } from './cookies/jar';
+export { HttpProxyAgent, HttpsProxyAgent } from './proxy';
+export { HttpCache, MemoryCacheStore, FileSystemCacheStore } from './cache';
+export { HarRecorder } from './har';
+export { ReplayTransport } from './replay';
+export { extractForms, parseForms, submitForm } from './forms';
+export { OAuth2TokenManager } from './oauth2';
+export {
+  AbortError,
+  HttpRequestError,
+  HttpStatusError,
+  HttpTimeoutError,
+  InvalidJsonError,
+  InvalidUrlError,
+  NetworkError,
+  OAuth2Error,
+  RedirectLoopError,
+  ResponseTooLargeError,
+  ResponseValidationError,
+  TooManyRedirectsError,
+} from './errors';
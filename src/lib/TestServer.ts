@@ -1,12 +1,20 @@
 import * as http from 'node:http';
 import * as net from 'node:net';
-type HttpMethod = 'GET' | 'POST';
+type HttpMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS';
 type Unsubscribe = () => any;
 
 export class TestServer {
   private serverInstance: http.Server | null = null;
   private sockets: Set<net.Socket> = new Set<net.Socket>();
-  private pathHandlers: Record<HttpMethod, Record<string, http.RequestListener>> = { GET: {}, POST: {} };
+  private pathHandlers: Record<HttpMethod, Record<string, http.RequestListener>> = {
+    GET: {},
+    HEAD: {},
+    POST: {},
+    PUT: {},
+    PATCH: {},
+    DELETE: {},
+    OPTIONS: {},
+  };
   private throwOnUnhandled: boolean;
   private throwOnDuplicateHandler: boolean;
   private port: number;
@@ -68,7 +76,7 @@ export class TestServer {
   private requestListener: http.RequestListener = async (req, res) => {
     const method: HttpMethod = (req.method as HttpMethod) || 'GET';
     const path = req.url || '/';
-    if (this.pathHandlers[method][path]) {
+    if (this.pathHandlers[method] && this.pathHandlers[method][path]) {
       this.pathHandlers[method][path](req, res);
     } else {
       res.statusCode = 404;
@@ -1,7 +1,9 @@
-import type { Readable, Writable } from 'stream';
+import type { Readable, Transform, Writable } from 'stream';
 
 import { pipeline } from 'node:stream';
 
-export function asyncPipeline(input: Readable, output: Writable): Promise<void> {
-  return new Promise((resolve, reject) => pipeline(input, output, (err) => (err ? reject(err) : resolve())));
+export function asyncPipeline(input: Readable, ...outputs: [...Transform[], Writable]): Promise<void> {
+  return new Promise((resolve, reject) =>
+    pipeline([input, ...outputs], (err: Error | null) => (err ? reject(err) : resolve()))
+  );
 }
@@ -1,11 +1,53 @@
 import { Readable, Writable, pipeline } from 'node:stream';
+import { TextDecoder } from 'node:util';
 
-export function collectStreamToString(stream: Readable): Promise<string> {
+/**
+ * Decodes the stream with a streaming decoder so characters split between chunks stay intact;
+ * encoding can be a function choosing the encoding based on the first sniffLength bytes
+ */
+export function collectStreamToString(
+  stream: Readable,
+  encoding: string | ((head: Buffer) => string) = 'utf-8',
+  sniffLength = 1024
+): Promise<string> {
   let output = '';
+  let decoder: TextDecoder | null = null;
+  let head: Buffer[] = [];
+  let headLength = 0;
+  /* always decoding in streaming mode as Node decodes windows-1252 as latin1 otherwise */
+  const decodeHead = (getEncoding: (head: Buffer) => string): TextDecoder => {
+    const headBuffer = Buffer.concat(head);
+    const headDecoder = new TextDecoder(getEncoding(headBuffer));
+    head = [];
+    output += headDecoder.decode(headBuffer, { stream: true });
+    return headDecoder;
+  };
   const collectStream = new Writable({
-    write(chunk, _, done) {
-      output += chunk;
-      done();
+    write(chunk: Buffer, _, done) {
+      try {
+        if (decoder) {
+          output += decoder.decode(chunk, { stream: true });
+        } else if (typeof encoding === 'string') {
+          decoder = new TextDecoder(encoding);
+          output += decoder.decode(chunk, { stream: true });
+        } else {
+          head.push(chunk);
+          headLength += chunk.length;
+          if (headLength >= sniffLength) decoder = decodeHead(encoding);
+        }
+        done();
+      } catch (err) {
+        done(err as Error);
+      }
+    },
+    final(done) {
+      try {
+        const finalDecoder = decoder || decodeHead(typeof encoding === 'string' ? () => encoding : encoding);
+        output += finalDecoder.decode();
+        done();
+      } catch (err) {
+        done(err as Error);
+      }
     },
   });
   return new Promise((resolve, reject) =>
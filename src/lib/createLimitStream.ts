@@ -0,0 +1,12 @@
+import { Transform } from 'node:stream';
+
+export function createLimitStream(maxBytes: number, makeError: () => Error): Transform {
+  let bytes = 0;
+  return new Transform({
+    transform(chunk, _enc, done) {
+      bytes += chunk.length;
+      if (bytes > maxBytes) done(makeError());
+      else done(null, chunk);
+    },
+  });
+}
@@ -0,0 +1,8 @@
+/**
+ * The string code of system errors and HttpRequestError, like ECONNRESET, null for anything else
+ */
+export function getErrorCode(error: unknown): string | null {
+  if (!error || typeof error !== 'object' || !('code' in error)) return null;
+  const { code } = error as { code: unknown };
+  return typeof code === 'string' ? code : null;
+}
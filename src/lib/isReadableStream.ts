@@ -0,0 +1,5 @@
+import type { Readable } from 'node:stream';
+
+export function isReadableStream(val: unknown): val is Readable {
+  return !!val && typeof val === 'object' && typeof (val as { pipe?: unknown }).pipe === 'function';
+}
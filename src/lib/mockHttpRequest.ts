@@ -50,3 +50,55 @@ export function mockHttpRequestFactory(params: MockRequestParams): MakeHttpReque
     return requestStream;
   };
 }
+
+export interface MockRequest {
+  url: URL;
+  options: RequestOptions;
+  headers: HttpHeaders;
+  body: Buffer;
+}
+
+/* an Error is emitted on the request instead of responding */
+export type MockResponse = Error | [number, string | Buffer | Readable, HttpHeaders?];
+
+/**
+ * Answers each request with what handler returns for it once the request body has been written
+ */
+export function mockHandlerHttpRequestFactory(handler: (request: MockRequest) => MockResponse): MakeHttpRequest {
+  return (url, options, cb) => {
+    const chunks: Buffer[] = [];
+    const requestStream = new Writable({
+      write(chunk, _enc, done) {
+        chunks.push(Buffer.from(chunk));
+        done();
+      },
+    });
+    requestStream.on('finish', () => {
+      const headers = { ...(options.headers as HttpHeaders) };
+      const response = handler({ url, options, headers, body: Buffer.concat(chunks) });
+      if (response instanceof Error) {
+        setTimeout(() => requestStream.emit('error', response), 1);
+        return;
+      }
+      const [statusCode, data, responseHeaders] = response;
+      const responseStream = Object.assign(createReadableStream(data), {
+        statusCode,
+        statusMessage: '',
+        headers: responseHeaders || {},
+      });
+      setTimeout(() => cb(responseStream), 1);
+    });
+    return requestStream;
+  };
+}
+
+/**
+ * Answers requests with responses in order, repeating the last one; the url of every request is pushed to calls
+ */
+export function mockSequenceHttpRequestFactory(responses: MockResponse[], calls: string[] = []): MakeHttpRequest {
+  let index = 0;
+  return mockHandlerHttpRequestFactory(({ url }) => {
+    calls.push(url.toString());
+    return responses[Math.min(index++, responses.length - 1)];
+  });
+}
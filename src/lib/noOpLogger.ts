@@ -1,11 +1,14 @@
+import type { Logger } from '../types/logger';
+
 function noOp() {
   //
 }
 
-export const noOpLogger = {
+export const noOpLogger: Logger = {
   debug: noOp,
   info: noOp,
   warn: noOp,
   error: noOp,
-  namespace: () => noOpLogger,
+  level: 'silent',
+  child: () => noOpLogger,
 };
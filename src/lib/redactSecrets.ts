@@ -0,0 +1,25 @@
+import type { HttpSecret } from '../types/http-request';
+
+/**
+ * Replaces every occurrence of each secret, also in its URI, form and JSON encoded forms; regular expressions are
+ * replaced as they are
+ */
+export function redactSecrets(str: string, secrets: HttpSecret[]): string {
+  let output = str;
+  for (const secret of secrets) {
+    if (typeof secret !== 'string') {
+      output = output.replace(secret, '[SECRET]');
+      continue;
+    }
+    if (secret.length === 0) continue;
+    for (const variant of [
+      secret,
+      encodeURIComponent(secret),
+      new URLSearchParams({ secret }).toString().slice(7),
+      JSON.stringify(secret).slice(1, -1),
+    ]) {
+      output = output.split(variant).join('[SECRET]');
+    }
+  }
+  return output;
+}
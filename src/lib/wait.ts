@@ -0,0 +1,16 @@
+import { AbortError } from '../errors';
+
+export function wait(ms: number, abortSignal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (abortSignal && abortSignal.aborted) return reject(new AbortError());
+    const onAbort = () => {
+      clearTimeout(handle);
+      reject(new AbortError());
+    };
+    const handle = setTimeout(() => {
+      if (abortSignal) abortSignal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (abortSignal) abortSignal.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,23 @@
+import type { LogEvent, LogLevel, Logger } from './types/logger';
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+export function isLogLevelEnabled(logger: Logger, level: Exclude<LogLevel, 'silent'>): boolean {
+  if (!logger.level) return true;
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(logger.level);
+}
+
+/**
+ * Returns a logger adding fields to the event of every message; fields of the event logged take precedence
+ */
+export function createChildLogger(logger: Logger, fields: LogEvent): Logger {
+  if (logger.child) return logger.child(fields);
+  return {
+    debug: (message, details, event) => logger.debug(message, details, { ...fields, ...event }),
+    info: (message, details, event) => logger.info(message, details, { ...fields, ...event }),
+    warn: (message, details, event) => logger.warn(message, details, { ...fields, ...event }),
+    error: (message, details, event) => logger.error(message, details, { ...fields, ...event }),
+    level: logger.level,
+    child: (childFields) => createChildLogger(logger, { ...fields, ...childFields }),
+  };
+}
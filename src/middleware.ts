@@ -0,0 +1,43 @@
+import type {
+  HttpMiddleware,
+  HttpMiddlewareContext,
+  HttpRedirectInfo,
+  HttpRequestOptions,
+  HttpRequestResponse,
+} from './types/http-request';
+
+type RequestHandler = (options: HttpRequestOptions<any, any, any>) => Promise<HttpRequestResponse<any, any>>;
+
+/**
+ * Runs the middleware chain in order; each middleware can replace the options passed down the chain by calling
+ * next(options), return its own response instead of calling next, or transform whatever next resolves or rejects with
+ */
+export function runMiddleware(
+  middleware: HttpMiddleware[],
+  options: HttpRequestOptions<any, any, any>,
+  handler: RequestHandler
+): Promise<HttpRequestResponse<any, any>> {
+  const redirectListeners: ((redirect: HttpRedirectInfo) => any)[] = [];
+  const context: HttpMiddlewareContext = {
+    options,
+    state: {},
+    onRedirect: (listener) => redirectListeners.push(listener),
+  };
+  const dispatch = async (index: number): Promise<HttpRequestResponse<any, any>> => {
+    if (index >= middleware.length) {
+      const { onRedirect, ...handlerOptions } = context.options;
+      return handler({
+        ...handlerOptions,
+        onRedirect: (redirect: HttpRedirectInfo) => {
+          redirectListeners.forEach((listener) => listener(redirect));
+          if (onRedirect) onRedirect(redirect);
+        },
+      });
+    }
+    return middleware[index](context, (nextOptions) => {
+      if (nextOptions) context.options = nextOptions;
+      return dispatch(index + 1);
+    });
+  };
+  return dispatch(0);
+}
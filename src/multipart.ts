@@ -0,0 +1,106 @@
+import type {
+  HttpMultipartData,
+  HttpMultipartFile,
+  HttpMultipartValue,
+  FormattedMultipartData,
+} from './types/http-request';
+import { randomBytes } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { isReadableStream } from './lib/isReadableStream';
+
+/* Resources
+https://www.rfc-editor.org/rfc/rfc7578
+https://html.spec.whatwg.org/multipage/form-control-infrastructure.html#multipart-form-data
+*/
+
+const CRLF = '\r\n';
+
+function isMultipartFile(val: any): val is HttpMultipartFile {
+  return !!val && typeof val === 'object' && !Buffer.isBuffer(val) && !isReadableStream(val) && 'value' in val;
+}
+
+function escapeName(str: string): string {
+  return str.replace(/\r/g, '%0D').replace(/\n/g, '%0A').replace(/"/g, '%22');
+}
+
+export function makeMultipartBoundary(): string {
+  return '----HttpSessionFormBoundary' + randomBytes(12).toString('hex');
+}
+
+function makePart(name: string, value: HttpMultipartValue): [string, string | Buffer | Readable, number | null] {
+  if (!isMultipartFile(value) && !Buffer.isBuffer(value) && !isReadableStream(value)) {
+    const body = String(value);
+    return [`Content-Disposition: form-data; name="${escapeName(name)}"${CRLF}${CRLF}`, body, Buffer.byteLength(body)];
+  }
+  const file = isMultipartFile(value) ? value : { value };
+  const filename = escapeName(file.filename || name);
+  const contentType = file.contentType || 'application/octet-stream';
+  const size = isReadableStream(file.value)
+    ? typeof file.size === 'number'
+      ? file.size
+      : null
+    : Buffer.byteLength(file.value);
+  return [
+    `Content-Disposition: form-data; name="${escapeName(name)}"; filename="${filename}"${CRLF}` +
+      `Content-Type: ${contentType}${CRLF}${CRLF}`,
+    file.value,
+    size,
+  ];
+}
+
+async function* iterateChunks(chunks: (string | Buffer | Readable)[]) {
+  for (const chunk of chunks) {
+    if (isReadableStream(chunk)) {
+      for await (const data of chunk) yield typeof data === 'string' ? Buffer.from(data) : data;
+    } else {
+      yield typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+    }
+  }
+}
+
+export function formatMultipartData(data?: HttpMultipartData): FormattedMultipartData {
+  if (data && (typeof data !== 'object' || Array.isArray(data))) {
+    throw new TypeError('Property data is not an object when dataType is "multipart"');
+  }
+  const boundary = makeMultipartBoundary();
+  const chunks: (string | Buffer | Readable)[] = [];
+  let contentLength: number | null = 0;
+  for (const [name, fieldValue] of Object.entries(data || {})) {
+    for (const value of Array.isArray(fieldValue) ? fieldValue : [fieldValue]) {
+      const [header, body, size] = makePart(name, value);
+      const partHeader = `--${boundary}${CRLF}${header}`;
+      chunks.push(partHeader, body, CRLF);
+      contentLength =
+        contentLength === null || size === null
+          ? null
+          : contentLength + Buffer.byteLength(partHeader) + size + CRLF.length;
+    }
+  }
+  const closingBoundary = `--${boundary}--${CRLF}`;
+  chunks.push(closingBoundary);
+  if (contentLength !== null) contentLength += closingBoundary.length;
+  if (chunks.some(isReadableStream)) {
+    return { boundary, body: Readable.from(iterateChunks(chunks), { objectMode: false }), contentLength };
+  }
+  const body = Buffer.concat(
+    chunks.map((chunk) => (typeof chunk === 'string' ? Buffer.from(chunk) : (chunk as Buffer)))
+  );
+  return { boundary, body, contentLength: body.length };
+}
+
+/**
+ * Replaces binary and stream parts with placeholders so multipart data can be logged
+ */
+export function summarizeMultipartData(data?: HttpMultipartData): Record<string, string | string[]> {
+  const output: Record<string, string | string[]> = {};
+  const summarize = (value: HttpMultipartValue): string => {
+    if (isMultipartFile(value)) return value.filename ? `[FILE ${value.filename}]` : '[FILE]';
+    if (Buffer.isBuffer(value)) return '[BINARY]';
+    if (isReadableStream(value)) return '[STREAM]';
+    return String(value);
+  };
+  for (const [name, value] of Object.entries(data || {})) {
+    output[name] = Array.isArray(value) ? value.map(summarize) : summarize(value);
+  }
+  return output;
+}
@@ -0,0 +1,202 @@
+import type { HttpAuth, HttpMiddleware, HttpRequestResponse } from './types/http-request';
+import type { LoginMethods } from './types/http-session';
+import type { OAuth2SessionState, OAuth2Token, OAuth2TokenManagerOptions } from './types/oauth2';
+import { Readable } from 'node:stream';
+import { HttpStatusError, OAuth2Error } from './errors';
+
+/* Resources
+https://datatracker.ietf.org/doc/html/rfc6749#section-4.3
+https://datatracker.ietf.org/doc/html/rfc6749#section-4.4
+https://datatracker.ietf.org/doc/html/rfc6749#section-6
+*/
+
+type TokenMethods = Pick<LoginMethods<any, void>, 'request' | 'setState' | 'getCredentials'>;
+
+function isUnauthorized(response: HttpRequestResponse<any>): boolean {
+  if (response.status !== 401) return false;
+  if (response.data instanceof Readable) response.data.destroy();
+  return true;
+}
+
+function getString(data: Record<string, unknown>, key: string): string | null {
+  return typeof data[key] === 'string' ? (data[key] as string) : null;
+}
+
+/**
+ * Obtains OAuth2 access tokens for an HttpSession and sends them as Bearer tokens; pass login and middleware (and
+ * optionally logout) to the session. Tokens are kept in the oauth2 property of the session state, refreshed shortly
+ * before they expire and once more when a request comes back with 401. Requests with their own auth option are
+ * left alone.
+ */
+export class OAuth2TokenManager {
+  protected tokenUrl: URL;
+  protected clientId: string;
+  protected options: OAuth2TokenManagerOptions;
+  protected methods: TokenMethods | null = null;
+  protected token: OAuth2Token | null = null;
+  protected refreshPromise: Promise<OAuth2Token> | null = null;
+
+  constructor(
+    tokenUrl: string | URL,
+    clientId: string,
+    {
+      grantType = 'client_credentials',
+      clientSecret = null,
+      clientAuthentication = 'basic',
+      scope = null,
+      username = null,
+      password = null,
+      refreshToken = null,
+      refreshBeforeExpiryMs = 60_000,
+      extraParams = {},
+    }: Partial<OAuth2TokenManagerOptions> = {}
+  ) {
+    this.tokenUrl = new URL(tokenUrl.toString());
+    this.clientId = clientId;
+    this.options = {
+      grantType,
+      clientSecret,
+      clientAuthentication,
+      scope,
+      username,
+      password,
+      refreshToken,
+      refreshBeforeExpiryMs,
+      extraParams,
+    };
+    if (grantType === 'refresh_token' && !refreshToken) {
+      throw new TypeError('refreshToken is required when grantType is refresh_token');
+    }
+  }
+
+  public getToken(): OAuth2Token | null {
+    return this.token;
+  }
+
+  /* a token restored with the session state is reused until it is due for a refresh */
+  public login = async (methods: TokenMethods, state: unknown) => {
+    this.methods = methods;
+    const restored = state ? (state as Partial<OAuth2SessionState>).oauth2 : null;
+    if (restored) this.token = restored;
+    if (!this.token) await this.fetchToken(this.options.grantType);
+    else if (this.isExpiring(this.token)) await this.refresh(this.token);
+  };
+
+  public logout = async (methods: TokenMethods) => {
+    this.token = null;
+    methods.setState({ oauth2: null });
+  };
+
+  public middleware: HttpMiddleware = async ({ options }, next) => {
+    if (!this.methods || !this.token || options.auth || this.isTokenRequest(options.url)) return next();
+    let token = this.token;
+    if (this.isExpiring(token)) token = await this.refresh(token);
+    const send = ({ accessToken }: OAuth2Token) => next({ ...options, auth: { type: 'bearer', token: accessToken } });
+    try {
+      const response = await send(token);
+      if (!isUnauthorized(response)) return response;
+    } catch (err) {
+      if (!(err instanceof HttpStatusError) || err.status !== 401) throw err;
+    }
+    return send(await this.refresh(token));
+  };
+
+  protected isTokenRequest(url: string | URL): boolean {
+    try {
+      return new URL(url.toString()).href === this.tokenUrl.href;
+    } catch {
+      return false;
+    }
+  }
+
+  protected isExpiring({ expiresAt }: OAuth2Token): boolean {
+    return expiresAt !== null && Date.now() >= expiresAt - this.options.refreshBeforeExpiryMs;
+  }
+
+  /* concurrent requests share one refresh; a token replaced in the meantime is not refreshed again */
+  protected refresh(staleToken: OAuth2Token): Promise<OAuth2Token> {
+    if (this.token && this.token !== staleToken) return Promise.resolve(this.token);
+    if (!this.refreshPromise) {
+      const { refreshToken } = staleToken;
+      const { grantType } = this.options;
+      this.refreshPromise = (
+        refreshToken
+          ? this.fetchToken('refresh_token', refreshToken).catch((err) => {
+              const isInvalidGrant = err instanceof OAuth2Error && err.error === 'invalid_grant';
+              if (!isInvalidGrant || grantType === 'refresh_token') throw err;
+              return this.fetchToken(grantType);
+            })
+          : this.fetchToken(grantType)
+      ).then(
+        (token) => {
+          this.refreshPromise = null;
+          return token;
+        },
+        (err) => {
+          this.refreshPromise = null;
+          throw err;
+        }
+      );
+    }
+    return this.refreshPromise;
+  }
+
+  protected makeGrantParams(grantType: string, refreshToken: string | null): Record<string, string> {
+    const { options, methods } = this;
+    const params: Record<string, string> = { ...options.extraParams, grant_type: grantType };
+    if (grantType === 'refresh_token') {
+      params.refresh_token = refreshToken || (options.refreshToken as string);
+    } else if (grantType === 'password') {
+      const credentials = methods ? methods.getCredentials() : { username: null, password: null };
+      params.username = options.username || credentials.username || '';
+      params.password = options.password || credentials.password || '';
+    }
+    if (options.scope) params.scope = Array.isArray(options.scope) ? options.scope.join(' ') : options.scope;
+    if (options.clientAuthentication === 'body') {
+      params.client_id = this.clientId;
+      if (options.clientSecret !== null) params.client_secret = options.clientSecret;
+    }
+    return params;
+  }
+
+  protected async fetchToken(grantType: string, refreshToken: string | null = null): Promise<OAuth2Token> {
+    if (!this.methods) throw new Error('OAuth2TokenManager has to be used as the login of an HttpSession');
+    const { clientSecret, clientAuthentication } = this.options;
+    const params = this.makeGrantParams(grantType, refreshToken);
+    const auth: HttpAuth | false =
+      clientAuthentication === 'basic'
+        ? { type: 'basic', username: this.clientId, password: clientSecret || '' }
+        : false;
+    const secrets = [params.password, params.refresh_token, clientSecret].filter(
+      (secret): secret is string => !!secret
+    );
+    const response = await this.methods.request({
+      url: this.tokenUrl,
+      method: 'POST',
+      dataType: 'form',
+      data: params,
+      responseType: 'json',
+      headers: { Accept: 'application/json' },
+      auth,
+      validateStatus: false,
+      hideSecrets: secrets,
+    });
+    const data = (response.data && typeof response.data === 'object' ? response.data : {}) as Record<string, unknown>;
+    const accessToken = getString(data, 'access_token');
+    if (response.status < 200 || response.status >= 300 || !accessToken) {
+      throw new OAuth2Error(response.status, getString(data, 'error'), getString(data, 'error_description'));
+    }
+    const expiresIn =
+      typeof data.expires_in === 'number' || typeof data.expires_in === 'string' ? Number(data.expires_in) : NaN;
+    const token: OAuth2Token = {
+      accessToken,
+      tokenType: getString(data, 'token_type') || 'Bearer',
+      refreshToken: getString(data, 'refresh_token') || params.refresh_token || null,
+      scope: getString(data, 'scope'),
+      expiresAt: isNaN(expiresIn) ? null : Date.now() + expiresIn * 1000,
+    };
+    this.token = token;
+    this.methods.setState({ oauth2: token });
+    return token;
+  }
+}
@@ -0,0 +1,157 @@
+import type { HttpHeaders, HttpRequestOptions, HttpRequestResponse } from './types/http-request';
+import type { HttpPaginate, HttpPaginationStrategy } from './types/paginate';
+import { httpRequest } from './http-request';
+
+/* Resources
+https://datatracker.ietf.org/doc/html/rfc8288#section-3
+*/
+
+const DEFAULT_MAX_PAGES = 100;
+
+type PageOptions = HttpRequestOptions<any, any, any>;
+type PageRequest = (options: PageOptions) => Promise<HttpRequestResponse<any, any>>;
+
+function getPath(value: unknown, path: string): unknown {
+  const segments = path
+    .replace(/^\$\.?/, '')
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter((segment) => segment.length > 0);
+  let output = value;
+  for (const segment of segments) {
+    if (!output || typeof output !== 'object') return undefined;
+    output = (output as Record<string, unknown>)[segment];
+  }
+  return output;
+}
+
+function getHeader(headers: HttpHeaders, name: string): string | null {
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() !== name || typeof value === 'undefined') continue;
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return null;
+}
+
+function getNextLink(headers: HttpHeaders): string | null {
+  const header = getHeader(headers, 'link');
+  if (!header) return null;
+  const regex = /<([^>]*)>((?:\s*;\s*[^;,]+)*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(header))) {
+    const rel = /;\s*rel\s*=\s*(?:"([^"]*)"|([^\s;,]+))/i.exec(match[2]);
+    const relations = rel ? (rel[1] || rel[2]).toLowerCase().split(/\s+/) : [];
+    if (relations.includes('next')) return match[1];
+  }
+  return null;
+}
+
+function resolveUrl(url: unknown, baseUrl: URL): URL | null {
+  if (typeof url !== 'string' || url.length === 0) return null;
+  try {
+    return new URL(url, baseUrl);
+  } catch {
+    return null;
+  }
+}
+
+/* without itemsPath a response that is an array is the list of items */
+function getItems(data: unknown, itemsPath?: string): unknown[] | null {
+  const items = itemsPath ? getPath(data, itemsPath) : data;
+  return Array.isArray(items) ? items : null;
+}
+
+function withQuery(options: PageOptions, params: Record<string, string | number>): PageOptions {
+  return { ...options, query: { ...options.query, ...params } };
+}
+
+function getPageOptions(strategy: HttpPaginationStrategy, options: PageOptions, pageIndex: number): PageOptions {
+  switch (strategy.type) {
+    case 'offset': {
+      const { param = 'offset', limitParam = 'limit', start = 0, limit } = strategy;
+      const params: Record<string, number> = { [param]: start + pageIndex * limit };
+      if (limitParam !== null) params[limitParam] = limit;
+      return withQuery(options, params);
+    }
+    case 'page': {
+      const { param = 'page', start = 1 } = strategy;
+      return withQuery(options, { [param]: start + pageIndex });
+    }
+    default:
+      return options;
+  }
+}
+
+function countItems(strategy: HttpPaginationStrategy, items: unknown[] | null): number {
+  if (items === null) {
+    throw new TypeError(`itemsPath is required for ${strategy.type} pagination when the response is not an array`);
+  }
+  return items.length;
+}
+
+function getNextPageOptions(
+  strategy: HttpPaginationStrategy,
+  options: PageOptions,
+  response: HttpRequestResponse<any>,
+  items: unknown[] | null,
+  pageIndex: number
+): PageOptions | null {
+  switch (strategy.type) {
+    case 'link':
+    case 'next-url': {
+      const next = strategy.type === 'link' ? getNextLink(response.headers) : getPath(response.data, strategy.path);
+      const url = resolveUrl(next, response.url);
+      return url ? { ...options, url, query: undefined } : null;
+    }
+    case 'cursor': {
+      const cursor = getPath(response.data, strategy.path);
+      const isCursor = (typeof cursor === 'string' && cursor.length > 0) || typeof cursor === 'number';
+      return isCursor ? withQuery(options, { [strategy.param]: cursor as string | number }) : null;
+    }
+    case 'offset':
+      return countItems(strategy, items) < strategy.limit ? null : getPageOptions(strategy, options, pageIndex + 1);
+    case 'page': {
+      const count = countItems(strategy, items);
+      const isLast = count === 0 || (typeof strategy.pageSize === 'number' && count < strategy.pageSize);
+      return isLast ? null : getPageOptions(strategy, options, pageIndex + 1);
+    }
+    default:
+      throw new TypeError(`Invalid pagination type: ${(strategy as { type: unknown }).type}`);
+  }
+}
+
+/* a page requested twice, like a next link pointing back, ends the iteration */
+function makePageKey(options: PageOptions): string {
+  return JSON.stringify([String(options.url), options.query || null]);
+}
+
+/**
+ * Requests pages one after another with request, which is httpRequest or the request of a session; the next page is
+ * only requested once the previous one has been consumed
+ */
+export async function* iteratePages(
+  request: PageRequest,
+  options: PageOptions,
+  strategy: HttpPaginationStrategy
+): AsyncGenerator<unknown, void, undefined> {
+  const maxPages = typeof strategy.maxPages === 'number' ? strategy.maxPages : DEFAULT_MAX_PAGES;
+  const initialOptions: PageOptions = { responseType: 'json', ...options };
+  const visited = new Set<string>();
+  let pageOptions: PageOptions | null = getPageOptions(strategy, initialOptions, 0);
+  for (let pageIndex = 0; pageOptions && pageIndex < maxPages; pageIndex++) {
+    visited.add(makePageKey(pageOptions));
+    const response = await request(pageOptions);
+    const items = getItems(response.data, strategy.itemsPath);
+    if (!strategy.itemsPath) yield response;
+    else if (items) yield* items;
+    else throw new TypeError(`No array of items found at ${strategy.itemsPath}`);
+    pageOptions = getNextPageOptions(strategy, initialOptions, response, items, pageIndex);
+    if (pageOptions && visited.has(makePageKey(pageOptions))) pageOptions = null;
+  }
+}
+
+/**
+ * Iterates over the pages of a paginated resource, or over their items when the strategy has itemsPath
+ */
+export const paginate = ((options: PageOptions, strategy: HttpPaginationStrategy) =>
+  iteratePages(httpRequest, options, strategy)) as HttpPaginate;
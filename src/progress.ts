@@ -0,0 +1,58 @@
+import type { HttpDownloadProgress, HttpProgress } from './types/http-request';
+import { Transform } from 'node:stream';
+
+function createCountingStream(onChunk: (size: number) => void): Transform {
+  return new Transform({
+    transform(chunk, _enc, done) {
+      onChunk(chunk.length);
+      done(null, chunk);
+    },
+  });
+}
+
+function getBytesPerSecond(bytes: number, startedAt: number): number {
+  const elapsedMs = Date.now() - startedAt;
+  return elapsedMs > 0 ? Math.round((bytes * 1000) / elapsedMs) : 0;
+}
+
+export function trackUploadProgress(totalBytes: number | null, onProgress: (progress: HttpProgress) => any): Transform {
+  const startedAt = Date.now();
+  let transferredBytes = 0;
+  return createCountingStream((size) => {
+    transferredBytes += size;
+    onProgress({ transferredBytes, totalBytes, bytesPerSecond: getBytesPerSecond(transferredBytes, startedAt) });
+  });
+}
+
+/**
+ * Returns a stream counting the bytes as received and, for encoded responses, a stream counting them after
+ * decompression; without decompression both counts are the same
+ */
+export function trackDownloadProgress(
+  totalBytes: number | null,
+  isEncoded: boolean,
+  onProgress: (progress: HttpDownloadProgress) => any
+): [Transform, Transform | null] {
+  const startedAt = Date.now();
+  let transferredBytes = 0;
+  let decodedBytes = 0;
+  const report = () =>
+    onProgress({
+      transferredBytes,
+      decodedBytes,
+      totalBytes,
+      bytesPerSecond: getBytesPerSecond(transferredBytes, startedAt),
+    });
+  const wireStream = createCountingStream((size) => {
+    transferredBytes += size;
+    if (!isEncoded) decodedBytes += size;
+    report();
+  });
+  const decodedStream = isEncoded
+    ? createCountingStream((size) => {
+        decodedBytes += size;
+        report();
+      })
+    : null;
+  return [wireStream, decodedStream];
+}
@@ -0,0 +1,151 @@
+import type { ClientRequest, AgentOptions } from 'node:http';
+import type { Socket } from 'node:net';
+import type { HttpProxy, HttpProxyOptions } from './types/http-request';
+import { Agent as HttpAgent, request as nodeHttpRequest } from 'node:http';
+import { Agent as HttpsAgent, AgentOptions as HttpsAgentOptions, request as nodeHttpsRequest } from 'node:https';
+import { connect as netConnect } from 'node:net';
+import { connect as tlsConnect, ConnectionOptions } from 'node:tls';
+import { URL } from 'node:url';
+import { matchDomain } from './cookies/match-domain';
+
+/* Resources
+https://developer.mozilla.org/en-US/docs/Web/HTTP/Methods/CONNECT
+https://about.gitlab.com/blog/2021/01/27/we-need-to-talk-no-proxy/
+*/
+
+export interface ProxyConfig {
+  url: URL;
+  authorization: string | null;
+}
+
+type CreateConnectionCallback = (err: Error | null, socket?: Socket) => void;
+
+interface AddRequestOptions {
+  host: string;
+  port?: number;
+}
+
+/* addRequest is how node hands a request to an agent; it is internal and missing from the Agent types */
+interface RequestQueueingAgent {
+  addRequest(request: ClientRequest, options: AddRequestOptions): void;
+}
+
+const httpAgentPrototype: RequestQueueingAgent = HttpAgent.prototype as HttpAgent & RequestQueueingAgent;
+
+function getEnv(name: string): string | undefined {
+  return process.env[name.toLowerCase()] || process.env[name.toUpperCase()] || undefined;
+}
+
+function getDefaultPort(protocol: string): number {
+  return protocol === 'https:' ? 443 : 80;
+}
+
+function parseNoProxy(noProxy?: string | string[]): string[] {
+  if (!noProxy) return [];
+  const entries = Array.isArray(noProxy) ? noProxy : noProxy.split(/[\s,]+/);
+  return entries.map((entry) => entry.trim().toLowerCase()).filter((entry) => entry.length > 0);
+}
+
+export function matchNoProxy(url: URL, noProxy?: string | string[]): boolean {
+  const hostname = url.hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+  const port = url.port || String(getDefaultPort(url.protocol));
+  return parseNoProxy(noProxy).some((entry) => {
+    if (entry === '*') return true;
+    const [, entryHost, entryPort] = /^(.*?)(?::(\d+))?$/.exec(entry.replace(/^\[(.*)\](:\d+)?$/, '$1$2')) || [];
+    if (entryPort && entryPort !== port) return false;
+    const domain = entryHost.replace(/^\*?\./, '');
+    return domain.length > 0 && matchDomain(hostname, domain);
+  });
+}
+
+/**
+ * Returns the proxy a request to url should go through or null when it should connect directly
+ */
+export function getProxyForUrl(proxy: HttpProxy | null | false | undefined, url: URL): ProxyConfig | null {
+  if (!proxy) return null;
+  const options: HttpProxyOptions = typeof proxy === 'string' || proxy instanceof URL ? { url: proxy } : proxy;
+  const proxyUrl =
+    options.url || (options.fromEnv ? getEnv(url.protocol === 'https:' ? 'https_proxy' : 'http_proxy') : undefined);
+  if (!proxyUrl) return null;
+  const noProxy = options.noProxy || (options.fromEnv ? getEnv('no_proxy') : undefined);
+  if (matchNoProxy(url, noProxy)) return null;
+  const href = proxyUrl.toString();
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(/^[a-z0-9+.-]+:\/\//i.test(href) ? href : 'http://' + href);
+  } catch {
+    throw new TypeError(`Invalid proxy url: ${href}`);
+  }
+  if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') {
+    throw new TypeError(`Unsupported proxy protocol: ${parsedUrl.protocol}`);
+  }
+  const username = options.username || decodeURIComponent(parsedUrl.username);
+  const password = options.password || decodeURIComponent(parsedUrl.password);
+  return {
+    url: parsedUrl,
+    authorization: username ? 'Basic ' + Buffer.from(`${username}:${password || ''}`).toString('base64') : null,
+  };
+}
+
+function connectToProxy(proxy: ProxyConfig): Socket {
+  const host = proxy.url.hostname;
+  const port = Number(proxy.url.port) || getDefaultPort(proxy.url.protocol);
+  return proxy.url.protocol === 'https:' ? tlsConnect({ host, port, servername: host }) : netConnect({ host, port });
+}
+
+/**
+ * Sends plain http requests to the proxy using absolute urls as request paths
+ */
+export class HttpProxyAgent extends HttpAgent {
+  constructor(protected proxy: ProxyConfig, options?: AgentOptions) {
+    super(options);
+  }
+
+  public addRequest(request: ClientRequest, options: AddRequestOptions): void {
+    const port = options.port ? `:${options.port}` : '';
+    request.path = new URL(request.path, `${request.protocol}//${options.host}${port}`).toString();
+    if (this.proxy.authorization) request.setHeader('Proxy-Authorization', this.proxy.authorization);
+    httpAgentPrototype.addRequest.call(this, request, options);
+  }
+
+  public createConnection(): Socket {
+    return connectToProxy(this.proxy);
+  }
+}
+
+/**
+ * Tunnels https requests through the proxy using CONNECT
+ */
+export class HttpsProxyAgent extends HttpsAgent {
+  constructor(protected proxy: ProxyConfig, options?: HttpsAgentOptions) {
+    super(options);
+  }
+
+  public createConnection(options: ConnectionOptions, callback: CreateConnectionCallback): void {
+    const target = `${options.host}:${options.port || 443}`;
+    const proxyHost = this.proxy.url.hostname;
+    const connectRequest = (this.proxy.url.protocol === 'https:' ? nodeHttpsRequest : nodeHttpRequest)({
+      host: proxyHost,
+      port: Number(this.proxy.url.port) || getDefaultPort(this.proxy.url.protocol),
+      method: 'CONNECT',
+      path: target,
+      agent: false,
+      headers: this.proxy.authorization
+        ? { Host: target, 'Proxy-Authorization': this.proxy.authorization }
+        : { Host: target },
+    });
+    connectRequest.once('connect', (response, socket) => {
+      if (response.statusCode !== 200) {
+        socket.destroy();
+        return callback(new Error(`Proxy responded to CONNECT with status ${response.statusCode}`));
+      }
+      callback(null, tlsConnect({ ...options, socket, servername: options.servername || options.host }));
+    });
+    connectRequest.once('error', (err) => callback(err));
+    connectRequest.end();
+  }
+}
+
+export function createProxyAgent(proxy: ProxyConfig, url: URL, options?: AgentOptions): HttpAgent {
+  return url.protocol === 'https:' ? new HttpsProxyAgent(proxy, options) : new HttpProxyAgent(proxy, options);
+}
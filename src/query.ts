@@ -0,0 +1,38 @@
+import type { HttpQuery, HttpQueryArrayFormat, HttpQueryValue } from './types/http-request';
+
+function isPresent(value: HttpQueryValue): value is string | number | boolean {
+  return value !== null && typeof value !== 'undefined';
+}
+
+function formatQueryParam(key: string, value: HttpQueryValue | HttpQueryValue[], arrayFormat: HttpQueryArrayFormat) {
+  const encodedKey = encodeURIComponent(key);
+  if (!Array.isArray(value)) return isPresent(value) ? [`${encodedKey}=${encodeURIComponent(value)}`] : [];
+  const values = value.filter(isPresent).map((item) => encodeURIComponent(item));
+  switch (arrayFormat) {
+    case 'brackets':
+      return values.map((item) => `${encodedKey}[]=${item}`);
+    case 'comma':
+      return values.length > 0 ? [`${encodedKey}=${values.join(',')}`] : [];
+    case 'repeat':
+      return values.map((item) => `${encodedKey}=${item}`);
+    default:
+      throw new TypeError(`Invalid queryArrayFormat: ${arrayFormat}`);
+  }
+}
+
+export function formatQuery(query: HttpQuery, arrayFormat: HttpQueryArrayFormat = 'repeat'): string {
+  const params = Object.entries(query).map(([key, value]) => formatQueryParam(key, value, arrayFormat));
+  return ([] as string[]).concat(...params).join('&');
+}
+
+/**
+ * Returns a copy of url with query appended to its existing query string; null and undefined values are skipped
+ */
+export function addQueryToUrl(url: URL, query: HttpQuery, arrayFormat?: HttpQueryArrayFormat): URL {
+  const output = new URL(url.toString());
+  const queryString = formatQuery(query, arrayFormat);
+  if (queryString.length > 0) {
+    output.search = output.search.length > 1 ? `${output.search}&${queryString}` : queryString;
+  }
+  return output;
+}
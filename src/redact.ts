@@ -0,0 +1,138 @@
+import type { HttpHeaders, HttpRedactionPolicy, HttpSecret } from './types/http-request';
+import { getCookieHeaders } from './cookies/get-cookie-headers';
+import { redactSecrets } from './lib/redactSecrets';
+
+/*
+Values of the headers, cookies, query parameters and JSON paths named in the policy are added to hideSecrets as the
+request progresses, so they are masked wherever they show up afterwards: debug logs, error payloads and HAR entries.
+Patterns are added as they are.
+*/
+
+export const DEFAULT_REDACTION_POLICY: HttpRedactionPolicy = {
+  headers: ['authorization', 'proxy-authorization', 'x-api-key', 'x-auth-token'],
+  cookies: [],
+  queryParams: ['access_token', 'refresh_token', 'id_token', 'client_secret', 'api_key', 'apikey'],
+  jsonPaths: ['access_token', 'refresh_token', 'id_token', 'client_secret'],
+  patterns: [],
+};
+
+/**
+ * Combines policies by concatenating their lists; undefined and null policies are skipped
+ */
+export function mergeRedactionPolicies(
+  ...policies: (Partial<HttpRedactionPolicy> | null | undefined)[]
+): HttpRedactionPolicy {
+  const merged: HttpRedactionPolicy = { headers: [], cookies: [], queryParams: [], jsonPaths: [], patterns: [] };
+  for (const policy of policies) {
+    if (!policy) continue;
+    merged.headers.push(...(policy.headers || []));
+    merged.cookies.push(...(policy.cookies || []));
+    merged.queryParams.push(...(policy.queryParams || []));
+    merged.jsonPaths.push(...(policy.jsonPaths || []));
+    merged.patterns.push(...(policy.patterns || []));
+  }
+  return merged;
+}
+
+export function makeRedactionPolicy(policy?: Partial<HttpRedactionPolicy>): HttpRedactionPolicy {
+  const merged = mergeRedactionPolicies(DEFAULT_REDACTION_POLICY, policy);
+  for (const pattern of merged.patterns) {
+    if (!(pattern instanceof RegExp)) throw new TypeError(`Invalid redaction pattern: ${String(pattern)}`);
+  }
+  merged.patterns = merged.patterns.map((pattern) => new RegExp(pattern.source, pattern.flags.replace('g', '') + 'g'));
+  return merged;
+}
+
+function matchesName(names: string[], name: string): boolean {
+  const lowerCaseName = name.toLowerCase();
+  return names.some((item) => item === '*' || item.toLowerCase() === lowerCaseName);
+}
+
+function addSecret(hideSecrets: HttpSecret[], secret: string) {
+  if (secret.length > 0 && !hideSecrets.includes(secret)) hideSecrets.push(secret);
+}
+
+function addCookieSecrets(policy: HttpRedactionPolicy, hideSecrets: HttpSecret[], cookies: string[]) {
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.split(';')[0].split('=');
+    if (matchesName(policy.cookies, name.trim())) addSecret(hideSecrets, value.join('=').trim());
+  }
+}
+
+/**
+ * Adds values of redacted headers and cookies, from both Cookie and Set-Cookie headers
+ */
+export function addHeaderSecrets(policy: HttpRedactionPolicy, hideSecrets: HttpSecret[], headers: HttpHeaders) {
+  for (const [name, value] of Object.entries(headers)) {
+    if (typeof value === 'undefined') continue;
+    const values = Array.isArray(value) ? value : [String(value)];
+    if (name.toLowerCase() === 'cookie') {
+      addCookieSecrets(policy, hideSecrets, ([] as string[]).concat(...values.map((item) => item.split(';'))));
+    }
+    if (matchesName(policy.headers, name)) values.forEach((item) => addSecret(hideSecrets, item));
+  }
+  addCookieSecrets(policy, hideSecrets, getCookieHeaders(headers));
+}
+
+export function addUrlSecrets(policy: HttpRedactionPolicy, hideSecrets: HttpSecret[], url: URL) {
+  url.searchParams.forEach((value, name) => {
+    if (matchesName(policy.queryParams, name)) addSecret(hideSecrets, value);
+  });
+}
+
+function parsePath(path: string): string[] {
+  return path
+    .replace(/^\$\.?/, '')
+    .replace(/\[(\d+|\*)\]/g, '.$1')
+    .split('.')
+    .filter((segment) => segment.length > 0);
+}
+
+/* streams, buffers and other class instances are never walked */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object') return false;
+  return Array.isArray(value) || Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function addValueSecrets(hideSecrets: HttpSecret[], value: unknown) {
+  if (typeof value === 'string' || typeof value === 'number') addSecret(hideSecrets, String(value));
+  else if (isPlainObject(value)) Object.values(value).forEach((item) => addValueSecrets(hideSecrets, item));
+}
+
+function addPathSecrets(hideSecrets: HttpSecret[], value: unknown, path: string[]) {
+  if (path.length === 0) return addValueSecrets(hideSecrets, value);
+  if (!isPlainObject(value)) return;
+  const [segment, ...rest] = path;
+  const children = segment === '*' ? Object.values(value) : [value[segment]];
+  children.forEach((child) => addPathSecrets(hideSecrets, child, rest));
+}
+
+/**
+ * Adds values found at the policy JSON paths, like user.password or items[*].token; strings are parsed when they
+ * look like JSON
+ */
+export function addDataSecrets(policy: HttpRedactionPolicy, hideSecrets: HttpSecret[], data: unknown) {
+  if (policy.jsonPaths.length === 0) return;
+  let value = data;
+  if (typeof data === 'string') {
+    if (!/^\s*[[{]/.test(data)) return;
+    try {
+      value = JSON.parse(data);
+    } catch {
+      return;
+    }
+  }
+  for (const path of policy.jsonPaths) addPathSecrets(hideSecrets, value, parsePath(path));
+}
+
+/**
+ * Masks secrets in every string of a parsed JSON value, leaving its structure intact
+ */
+export function redactValue(value: unknown, hideSecrets: HttpSecret[]): unknown {
+  if (typeof value === 'string') return redactSecrets(value, hideSecrets);
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, hideSecrets));
+  if (!isPlainObject(value)) return value;
+  const output: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) output[key] = redactValue(item, hideSecrets);
+  return output;
+}
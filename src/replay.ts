@@ -0,0 +1,225 @@
+import type { HttpHeaders, MakeHttpRequest, ResponseStream } from './types/http-request';
+import type { Har } from './types/har';
+import type { ReplayCassette, ReplayInteraction, ReplayTransportOptions } from './types/replay';
+import { Writable } from 'node:stream';
+import { promises as fs } from 'node:fs';
+import { request as nodeHttpsRequest } from 'node:https';
+import { request as nodeHttpRequest } from 'node:http';
+import { collectStreamToBuffer } from './lib/collectStreamToBuffer';
+import { createReadableStream } from './lib/createReadableStream';
+import { AbortError } from './errors';
+
+const STREAM_CHUNK_SIZE = 64 * 1024;
+/* recorded HAR bodies are already decoded so the headers describing the encoding no longer apply */
+const HAR_IGNORED_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding'];
+
+function isNotFound(err: unknown): boolean {
+  return !!err && typeof err === 'object' && (err as { code?: string }).code === 'ENOENT';
+}
+
+function isHar(data: any): data is Har {
+  return !!data && typeof data === 'object' && !!data.log && Array.isArray(data.log.entries);
+}
+
+function isUtf8(buffer: Buffer): boolean {
+  return Buffer.from(buffer.toString('utf8'), 'utf8').equals(buffer);
+}
+
+function makeInteractionsFromHar(har: Har): ReplayInteraction[] {
+  return har.log.entries.map(({ request, response }) => {
+    const headers: HttpHeaders = {};
+    for (const { name, value } of response.headers) {
+      const key = name.toLowerCase();
+      if (HAR_IGNORED_HEADERS.includes(key)) continue;
+      const existing = headers[key];
+      if (key === 'set-cookie') {
+        headers[key] = ((existing as string[] | undefined) || []).concat(value);
+      } else {
+        headers[key] = typeof existing === 'undefined' ? value : `${existing}, ${value}`;
+      }
+    }
+    return {
+      request: {
+        method: request.method,
+        url: request.url,
+        body: request.postData ? request.postData.text : undefined,
+      },
+      response: {
+        status: response.status,
+        statusMessage: response.statusText,
+        headers,
+        body: response.content.text || '',
+        encoding: response.content.encoding,
+      },
+    };
+  });
+}
+
+/* node aborts its own requests on options.signal, the streams returned by the transport have to do the same */
+function destroyOnAbort(stream: Writable, signal?: AbortSignal): () => void {
+  if (!signal) return () => undefined;
+  const onAbort = () => stream.destroy(new AbortError());
+  if (signal.aborted) onAbort();
+  else signal.addEventListener('abort', onAbort, { once: true });
+  return () => signal.removeEventListener('abort', onAbort);
+}
+
+function makeResponseStream({ response }: ReplayInteraction): ResponseStream {
+  const body = Buffer.from(response.body, response.encoding === 'base64' ? 'base64' : 'utf8');
+  return Object.assign(createReadableStream(body, STREAM_CHUNK_SIZE), {
+    statusCode: response.status,
+    statusMessage: response.statusMessage,
+    headers: { ...response.headers },
+  });
+}
+
+/**
+ * Transport that can be passed as _request, _makeHttpRequest or _makeHttpsRequest to serve recorded
+ * responses instead of making network requests; recorded interactions are replayed in order
+ */
+export class ReplayTransport {
+  protected interactions: ReplayInteraction[];
+  protected used = new Set<ReplayInteraction>();
+  protected mode: 'replay' | 'record';
+  protected matchBody: boolean;
+  protected filename: string | null = null;
+  protected _makeHttpRequest: MakeHttpRequest;
+  protected _makeHttpsRequest: MakeHttpRequest;
+
+  constructor(
+    recording: ReplayCassette | Har | null = null,
+    {
+      mode = 'replay',
+      matchBody = false,
+      _makeHttpRequest = nodeHttpRequest,
+      _makeHttpsRequest = nodeHttpsRequest,
+    }: Partial<ReplayTransportOptions> = {}
+  ) {
+    this.interactions = !recording
+      ? []
+      : isHar(recording)
+      ? makeInteractionsFromHar(recording)
+      : recording.interactions;
+    this.mode = mode === 'once' ? (recording ? 'replay' : 'record') : mode;
+    this.matchBody = matchBody;
+    this._makeHttpRequest = _makeHttpRequest;
+    this._makeHttpsRequest = _makeHttpsRequest;
+    if (this.mode === 'record') this.interactions = [];
+  }
+
+  /**
+   * Loads a HAR file or a cassette saved by save; in once mode a missing file starts a recording
+   */
+  public static async fromFile(filename: string, options: Partial<ReplayTransportOptions> = {}) {
+    let recording: ReplayCassette | Har | null = null;
+    try {
+      recording = JSON.parse(await fs.readFile(filename, 'utf8'));
+    } catch (err) {
+      if (!isNotFound(err) || !options.mode || options.mode === 'replay') throw err;
+    }
+    const transport = new ReplayTransport(recording, options);
+    transport.filename = filename;
+    return transport;
+  }
+
+  public getCassette(): ReplayCassette {
+    return { version: 1, interactions: this.interactions.slice() };
+  }
+
+  public async save(filename = this.filename) {
+    if (!filename) throw new TypeError('filename is required when the transport was not loaded from a file');
+    await fs.writeFile(filename, JSON.stringify(this.getCassette(), null, 2));
+  }
+
+  public request: MakeHttpRequest = (url, options, callback) => {
+    const method = options.method || 'GET';
+    const chunks: Buffer[] = [];
+    if (this.mode === 'record') return this.recordRequest(url, options, callback, chunks);
+    const requestStream = new Writable({
+      autoDestroy: false,
+      write(chunk, _enc, done) {
+        chunks.push(Buffer.from(chunk));
+        done();
+      },
+    });
+    const removeAbortListener = destroyOnAbort(requestStream, options.signal);
+    requestStream.on('finish', () => {
+      const body = Buffer.concat(chunks).toString('utf8');
+      const interaction = this.findInteraction(method, url.toString(), body);
+      setImmediate(() => {
+        removeAbortListener();
+        if (requestStream.destroyed) return;
+        if (!interaction) {
+          requestStream.emit('error', new Error(`No recorded response for ${method} ${url}`));
+        } else {
+          callback(makeResponseStream(interaction));
+        }
+      });
+    });
+    return requestStream;
+  };
+
+  protected findInteraction(method: string, url: string, body: string): ReplayInteraction | null {
+    const interaction = this.interactions.find(
+      (candidate) =>
+        !this.used.has(candidate) &&
+        candidate.request.method === method &&
+        candidate.request.url === url &&
+        (!this.matchBody || (candidate.request.body || '') === body)
+    );
+    if (interaction) this.used.add(interaction);
+    return interaction || null;
+  }
+
+  protected recordRequest(
+    url: URL,
+    options: Parameters<MakeHttpRequest>[1],
+    callback: Parameters<MakeHttpRequest>[2],
+    chunks: Buffer[]
+  ) {
+    const makeRequest = url.protocol === 'https:' ? this._makeHttpsRequest : this._makeHttpRequest;
+    const request = makeRequest(url, options, async (response) => {
+      try {
+        const body = await collectStreamToBuffer(response);
+        const requestBody = Buffer.concat(chunks).toString('utf8');
+        const utf8 = isUtf8(body);
+        const interaction: ReplayInteraction = {
+          request: { method: options.method || 'GET', url: url.toString(), body: requestBody || undefined },
+          response: {
+            status: response.statusCode as number,
+            statusMessage: response.statusMessage || '',
+            headers: { ...response.headers },
+            body: body.toString(utf8 ? 'utf8' : 'base64'),
+            encoding: utf8 ? undefined : 'base64',
+          },
+        };
+        removeAbortListener();
+        if (requestStream.destroyed) return;
+        this.interactions.push(interaction);
+        callback(makeResponseStream(interaction));
+      } catch (err) {
+        requestStream.emit('error', err);
+      }
+    });
+    const requestStream = new Writable({
+      autoDestroy: false,
+      write(chunk, _enc, done) {
+        chunks.push(Buffer.from(chunk));
+        request.write(chunk, done);
+      },
+      final(done) {
+        request.end(done);
+      },
+      destroy(err, done) {
+        if (!request.destroyed) request.destroy(err || undefined);
+        done(err);
+      },
+    });
+    const removeAbortListener = destroyOnAbort(requestStream, options.signal);
+    request.on('error', (err) => requestStream.emit('error', err));
+    /* timings and timeouts of httpRequest listen for these on the request stream they were given */
+    request.on('socket', (socket) => requestStream.emit('socket', socket));
+    request.on('timeout', () => requestStream.emit('timeout'));
+    return requestStream;
+  }
+}
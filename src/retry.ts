@@ -0,0 +1,63 @@
+import type { HttpHeaders, HttpRetryContext, HttpRetryOptions } from './types/http-request';
+import { getErrorCode } from './lib/getErrorCode';
+import { HttpTimeoutError } from './errors';
+
+const DEFAULT_RETRY_OPTIONS: HttpRetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 200,
+  maxDelayMs: 30_000,
+  methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryOnErrorCodes: ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN'],
+  retryOnTimeouts: ['idle', 'connect', 'response'],
+  respectRetryAfter: true,
+};
+
+export function makeRetryOptions(retry?: Partial<HttpRetryOptions> | false): HttpRetryOptions | null {
+  if (!retry) return null;
+  return { ...DEFAULT_RETRY_OPTIONS, ...retry };
+}
+
+/*
+Retry-After is either a number of seconds or an HTTP date
+https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Retry-After
+*/
+export function parseRetryAfter(headers?: HttpHeaders): number | null {
+  if (!headers) return null;
+  const headerValue = headers['retry-after'] || headers['Retry-After'];
+  if (typeof headerValue === 'number') return headerValue * 1000;
+  if (typeof headerValue !== 'string') return null;
+  if (/^\d+$/.test(headerValue.trim())) return parseInt(headerValue, 10) * 1000;
+  const date = +new Date(headerValue);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function isRetryable(retry: HttpRetryOptions, context: HttpRetryContext): boolean {
+  if (retry.shouldRetry) return retry.shouldRetry(context);
+  if (!retry.methods.includes(context.method)) return false;
+  if (context.error instanceof HttpTimeoutError) return retry.retryOnTimeouts.includes(context.error.phase);
+  if (context.error) {
+    const code = getErrorCode(context.error);
+    return code !== null && retry.retryOnErrorCodes.includes(code);
+  }
+  return typeof context.status === 'number' && retry.retryOnStatus.includes(context.status);
+}
+
+/*
+Exponential backoff with full jitter
+https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+*/
+function getBackoffDelay(retry: HttpRetryOptions, attempt: number): number {
+  const ceiling = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Returns the number of milliseconds to wait before the next attempt or null when the attempt should not be retried
+ */
+export function getRetryDelay(retry: HttpRetryOptions | null, context: HttpRetryContext): number | null {
+  if (!retry || context.attempt >= retry.maxAttempts) return null;
+  if (!isRetryable(retry, context)) return null;
+  const retryAfter = retry.respectRetryAfter ? parseRetryAfter(context.headers) : null;
+  return retryAfter === null ? getBackoffDelay(retry, context.attempt) : Math.min(retryAfter, retry.maxDelayMs);
+}
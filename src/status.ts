@@ -0,0 +1,38 @@
+import type { HttpStatusContext, HttpStatusValidator } from './types/http-request';
+
+const STATUS_RANGE = /^[1-5]xx$/i;
+
+function isStatusPattern(pattern: unknown): pattern is number | string {
+  return typeof pattern === 'number'
+    ? Number.isInteger(pattern)
+    : typeof pattern === 'string' && STATUS_RANGE.test(pattern);
+}
+
+function matchesStatusPattern(pattern: number | string, status: number): boolean {
+  return typeof pattern === 'number' ? pattern === status : Math.floor(status / 100) === Number(pattern[0]);
+}
+
+/**
+ * Checks validateStatus before the request is sent; false and undefined disable validation
+ */
+export function makeStatusValidator(validateStatus: HttpStatusValidator | false | undefined) {
+  if (validateStatus === false || typeof validateStatus === 'undefined') return undefined;
+  if (typeof validateStatus === 'function') return validateStatus;
+  const patterns: unknown[] = Array.isArray(validateStatus) ? validateStatus : [validateStatus];
+  if (patterns.length === 0 || !patterns.every(isStatusPattern)) {
+    throw new TypeError(`Invalid validateStatus: ${JSON.stringify(validateStatus)}`);
+  }
+  return validateStatus;
+}
+
+export function isValidStatus(validateStatus: HttpStatusValidator, context: HttpStatusContext): boolean {
+  if (typeof validateStatus === 'function') return !!validateStatus(context.status, context);
+  const patterns = Array.isArray(validateStatus) ? validateStatus : [validateStatus];
+  return patterns.some((pattern) => matchesStatusPattern(pattern, context.status));
+}
+
+export function formatStatusMismatch(validateStatus: HttpStatusValidator, status: number): string {
+  if (typeof validateStatus === 'function') return `Response status ${status} rejected by validateStatus`;
+  const patterns = Array.isArray(validateStatus) ? validateStatus : [validateStatus];
+  return `Response status ${status} not matching expected status ${patterns.join(', ')}`;
+}
@@ -0,0 +1,119 @@
+import type { Socket } from 'node:net';
+import type { Readable, Writable } from 'node:stream';
+import type { HttpTimeoutPhase } from './types/http-request';
+import { HttpTimeoutError } from './errors';
+
+export interface Deadline {
+  signal?: AbortSignal;
+  isExpired: () => boolean;
+  race: <T>(promise: Promise<T>) => Promise<T>;
+  destroyOnExpiry: (stream: Readable) => void;
+  clear: () => void;
+}
+
+function startTimer(ms: number, onTimeout: () => void): () => void {
+  const handle = setTimeout(onTimeout, ms);
+  handle.unref();
+  return () => clearTimeout(handle);
+}
+
+/**
+ * Destroys the request and calls onTimeout when connecting or waiting for the response headers takes too long;
+ * timeout is node's socket idle timeout which only emits 'timeout' on its own. Returns a function clearing the timers
+ * once the response arrived or the request failed
+ */
+export function watchRequestTimeouts(
+  request: Writable,
+  isHttps: boolean,
+  {
+    timeout,
+    connectTimeout,
+    responseTimeout,
+  }: { timeout?: number; connectTimeout: number | null; responseTimeout: number | null },
+  onTimeout: (err: HttpTimeoutError) => void
+): () => void {
+  const abort = (phase: HttpTimeoutPhase, ms: number) => {
+    clear();
+    const err = new HttpTimeoutError(phase, ms);
+    request.destroy(err);
+    onTimeout(err);
+  };
+  const clearConnect =
+    connectTimeout !== null ? startTimer(connectTimeout, () => abort('connect', connectTimeout)) : null;
+  const clearResponse =
+    responseTimeout !== null ? startTimer(responseTimeout, () => abort('response', responseTimeout)) : null;
+  if (typeof timeout === 'number') request.on('timeout', () => abort('idle', timeout));
+  if (clearConnect) {
+    request.once('socket', (socket: Socket) => {
+      if (!socket.connecting) return clearConnect();
+      socket.once(isHttps ? 'secureConnect' : 'connect', clearConnect);
+    });
+  }
+  function clear() {
+    if (clearConnect) clearConnect();
+    if (clearResponse) clearResponse();
+  }
+  return clear;
+}
+
+/**
+ * Deadline for the whole request, redirects, retries and body download included; on expiry the signal passed to
+ * node is aborted, watched streams are destroyed and pending or later races reject with a total timeout error
+ */
+export function createDeadline(totalTimeout: number | null, abortSignal?: AbortSignal): Deadline {
+  if (totalTimeout === null) {
+    return {
+      signal: abortSignal,
+      isExpired: () => false,
+      race: (promise) => promise,
+      destroyOnExpiry: () => undefined,
+      clear: () => undefined,
+    };
+  }
+  const controller = new AbortController();
+  const error = new HttpTimeoutError('total', totalTimeout);
+  const listeners = new Set<(err: HttpTimeoutError) => void>();
+  let expired = false;
+  const onAbort = () => controller.abort();
+  if (abortSignal && abortSignal.aborted) controller.abort();
+  else if (abortSignal) abortSignal.addEventListener('abort', onAbort, { once: true });
+  const clearTimer = startTimer(totalTimeout, () => {
+    expired = true;
+    controller.abort();
+    listeners.forEach((listener) => listener(error));
+  });
+  const clear = () => {
+    clearTimer();
+    listeners.clear();
+    if (abortSignal) abortSignal.removeEventListener('abort', onAbort);
+  };
+  return {
+    signal: controller.signal,
+    isExpired: () => expired,
+    race: (promise) => {
+      if (expired) return Promise.reject(error);
+      let listener: (err: HttpTimeoutError) => void = () => undefined;
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        listener = reject;
+        listeners.add(listener);
+      });
+      const removeListener = () => listeners.delete(listener);
+      return Promise.race([promise, timeoutPromise]).then(
+        (value) => {
+          removeListener();
+          return value;
+        },
+        (err) => {
+          removeListener();
+          throw err;
+        }
+      );
+    },
+    destroyOnExpiry: (stream) => {
+      const listener = (err: HttpTimeoutError) => stream.destroy(err);
+      listeners.add(listener);
+      stream.once('close', () => listeners.delete(listener));
+    },
+    clear,
+  };
+}
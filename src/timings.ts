@@ -0,0 +1,77 @@
+import type { Socket } from 'node:net';
+import type { Writable } from 'node:stream';
+import type { HttpMethod, HttpTimings, ResponseStream } from './types/http-request';
+import { performance } from 'node:perf_hooks';
+
+/* Resources
+https://nodejs.org/api/http.html#event-socket
+https://nodejs.org/api/net.html#event-lookup
+https://nodejs.org/api/tls.html#event-secureconnect
+*/
+
+interface TimingMarks {
+  start: number;
+  socket?: number;
+  lookup?: number;
+  connect?: number;
+  secureConnect?: number;
+  response?: number;
+  end?: number;
+}
+
+function getDuration(from: number | undefined, to: number | undefined): number | null {
+  return typeof from === 'number' && typeof to === 'number' ? Math.round((to - from) * 100) / 100 : null;
+}
+
+function updateTimings(timings: HttpTimings, marks: TimingMarks) {
+  const connected = marks.secureConnect || marks.connect || marks.socket;
+  timings.socket = getDuration(marks.start, marks.socket);
+  timings.dns = getDuration(marks.socket, marks.lookup);
+  timings.connect = getDuration(marks.lookup || marks.socket, marks.connect);
+  timings.tls = getDuration(marks.connect, marks.secureConnect);
+  timings.firstByte = getDuration(connected || marks.start, marks.response);
+  timings.download = getDuration(marks.response, marks.end);
+  timings.total = getDuration(marks.start, marks.end);
+}
+
+/**
+ * Fills timings in place as the request progresses; phases that did not happen, like dns and connect on a reused
+ * socket, stay null and download and total stay null until the response body has been read
+ */
+export function trackTimings(
+  request: Writable,
+  url: URL,
+  method: HttpMethod
+): [HttpTimings, (response: ResponseStream) => void] {
+  const marks: TimingMarks = { start: performance.now() };
+  const timings: HttpTimings = {
+    url: url.toString(),
+    method,
+    startedAt: Date.now(),
+    reusedSocket: false,
+    socket: null,
+    dns: null,
+    connect: null,
+    tls: null,
+    firstByte: null,
+    download: null,
+    total: null,
+  };
+  const mark = (name: keyof TimingMarks) => {
+    marks[name] = performance.now();
+    updateTimings(timings, marks);
+  };
+  request.once('socket', (socket: Socket) => {
+    mark('socket');
+    timings.reusedSocket = !!(request as Writable & { reusedSocket?: boolean }).reusedSocket || !socket.connecting;
+    if (!socket.connecting) return;
+    socket.once('lookup', () => mark('lookup'));
+    socket.once('connect', () => mark('connect'));
+    socket.once('secureConnect', () => mark('secureConnect'));
+  });
+  const onResponse = (response: ResponseStream) => {
+    mark('response');
+    response.once('end', () => mark('end'));
+  };
+  return [timings, onResponse];
+}
@@ -0,0 +1,26 @@
+import type { HttpHeaders } from './http-request';
+
+export type HttpCacheStatus = 'hit' | 'revalidated' | 'miss' | 'bypass';
+
+export interface HttpCacheEntry {
+  url: string;
+  method: string;
+  status: number;
+  statusMessage: string;
+  headers: HttpHeaders;
+  body: Buffer;
+  storedAt: number;
+  varyHeaders: Record<string, string>;
+}
+
+export interface HttpCacheStore {
+  get: (key: string) => Promise<HttpCacheEntry | null> | HttpCacheEntry | null;
+  set: (key: string, entry: HttpCacheEntry) => Promise<void> | void;
+  delete: (key: string) => Promise<void> | void;
+  clear: () => Promise<void> | void;
+}
+
+export interface HttpCacheOptions {
+  store: HttpCacheStore;
+  shared: boolean;
+}
@@ -0,0 +1,23 @@
+import type { HttpRequestDataType, HttpRequestOptions, HttpResponseType } from './http-request';
+
+export type HtmlFormEnctype = 'application/x-www-form-urlencoded' | 'multipart/form-data' | 'text/plain';
+
+export type HtmlFormFields = Record<string, string | string[]>;
+
+export interface HtmlForm {
+  id: string | null;
+  name: string | null;
+  action: URL;
+  method: 'GET' | 'POST';
+  enctype: HtmlFormEnctype;
+  /* values a browser would submit: checked checkboxes and radios, selected options, no buttons or files */
+  fields: HtmlFormFields;
+}
+
+/* null removes a field from the submitted values */
+export type HtmlFormValues = Record<string, string | string[] | null>;
+
+export type SubmitFormOptions<R extends HttpResponseType> = Omit<
+  HttpRequestOptions<HttpRequestDataType, R>,
+  'url' | 'method' | 'data' | 'dataType' | 'query'
+>;
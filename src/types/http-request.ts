@@ -1,6 +1,10 @@
 import type { Readable, Writable } from 'node:stream';
 import type { Agent, RequestOptions } from 'node:https';
+import type { Agent as HttpAgent } from 'node:http';
 import type { CookieJar } from '../cookies/jar';
+import type { HttpCache } from '../cache/http-cache';
+import type { HarRecorder } from '../har';
+import type { HttpCacheStatus } from './cache';
 import type { Logger } from './logger';
 import type { Cookie } from './cookies';
 
@@ -13,8 +17,25 @@ interface UsedHeaders {
 
 export type HttpHeaders = UsedHeaders & Record<string, string | string[] | number | undefined>;
 
-export type HttpResponseType = 'string' | 'binary' | 'json' | 'stream';
-export type HttpRequestDataType = 'json' | 'stream' | 'form' | 'binary' | 'raw';
+export type HttpResponseType = 'string' | 'binary' | 'json' | 'stream' | 'sse' | 'ndjson';
+export type HttpRequestDataType = 'json' | 'stream' | 'form' | 'binary' | 'raw' | 'multipart';
+
+export interface HttpMultipartFile {
+  value: string | Buffer | Readable;
+  filename?: string;
+  contentType?: string;
+  size?: number;
+}
+
+export type HttpMultipartValue = string | number | boolean | Buffer | Readable | HttpMultipartFile;
+
+export type HttpMultipartData = Record<string, HttpMultipartValue | HttpMultipartValue[]>;
+
+export interface FormattedMultipartData {
+  boundary: string;
+  body: Buffer | Readable;
+  contentLength: number | null;
+}
 
 export type HttpRequestData<T extends HttpRequestDataType | undefined> = T extends undefined
   ? any
@@ -28,18 +49,61 @@ export type HttpRequestData<T extends HttpRequestDataType | undefined> = T exten
   ? Record<string, string | string[]>
   : T extends 'binary'
   ? Buffer
+  : T extends 'multipart'
+  ? HttpMultipartData
   : never;
 
+export type HttpQueryValue = string | number | boolean | null | undefined;
+
+export type HttpQuery = Record<string, HttpQueryValue | HttpQueryValue[]>;
+
+export type HttpQueryArrayFormat = 'repeat' | 'brackets' | 'comma';
+
+/*
+idle - no socket activity for timeout ms
+connect - connecting, TLS handshake included, took longer than connectTimeout
+response - the response headers did not arrive within responseTimeout
+total - the whole request did not finish within totalTimeout
+*/
+export type HttpTimeoutPhase = 'idle' | 'connect' | 'response' | 'total';
+
+export interface HttpStatusContext {
+  status: number;
+  statusMessage: string;
+  method: HttpMethod;
+  url: URL;
+  headers: HttpHeaders;
+}
+
+/* '2xx' matches any status from 200 to 299 */
+export type HttpStatusRange = `${1 | 2 | 3 | 4 | 5}xx`;
+
+export type HttpStatusValidator =
+  | number
+  | HttpStatusRange
+  | (number | HttpStatusRange)[]
+  | ((status: number, response: HttpStatusContext) => boolean);
+
+/* called with the url of every hop, redirects included, as each one may need another agent or proxy */
+export type HttpAgentResolver = (url: URL) => HttpAgent | false | undefined;
+
 export interface HttpRequestOptions<T extends HttpRequestDataType, R extends HttpResponseType, J = any> {
   url: URL | string;
+  query?: HttpQuery;
+  queryArrayFormat?: HttpQueryArrayFormat;
   previousUrl?: URL | string;
   method?: HttpMethod;
   responseType?: R;
-  agent?: Agent | false;
+  responseEncoding?: string;
+  agent?: Agent | false | HttpAgentResolver;
   headers?: HttpHeaders;
   abortSignal?: AbortSignal;
   hideSecrets?: string[];
+  redact?: Partial<HttpRedactionPolicy>;
   timeout?: number;
+  connectTimeout?: number;
+  responseTimeout?: number;
+  totalTimeout?: number;
   dataType?: T;
   data?: HttpRequestData<T>;
   cookies?: Cookie[];
@@ -47,31 +111,228 @@ export interface HttpRequestOptions<T extends HttpRequestDataType, R extends Htt
   maxRedirects?: number;
   logger?: Logger;
   host?: string;
-  validateStatus?: number;
+  validateStatus?: HttpStatusValidator | false;
   validateJson?: (json: J) => boolean;
   assertNonEmptyResponse?: boolean;
+  retry?: Partial<HttpRetryOptions> | false;
+  reconnect?: Partial<HttpReconnectOptions> | boolean;
+  middleware?: HttpMiddleware[];
+  proxy?: HttpProxy | false;
+  auth?: HttpAuth | false;
+  cache?: HttpCache | false;
+  har?: HarRecorder | false;
+  onRedirect?: (redirect: HttpRedirectInfo) => any;
+  followRedirects?: boolean | ((redirect: HttpRedirectInfo) => boolean | URL);
+  bufferStreamBody?: boolean;
+  sensitiveHeaders?: string[];
+  trustedOrigins?: (string | URL)[];
+  maxResponseBytes?: number;
+  maxDecompressedBytes?: number;
+  onUploadProgress?: (progress: HttpProgress) => any;
+  onDownloadProgress?: (progress: HttpDownloadProgress) => any;
   _request?: MakeHttpRequest;
 }
 
+export interface HttpProxyOptions {
+  url?: string | URL;
+  username?: string;
+  password?: string;
+  noProxy?: string | string[];
+  fromEnv?: boolean;
+}
+
+export type HttpProxy = string | URL | HttpProxyOptions;
+
+export type HttpSecret = string | RegExp;
+
+/*
+headers, cookies and queryParams are names matched case-insensitively, * matches every name
+jsonPaths are dot separated, like user.password or items[*].token, and apply to JSON request and response bodies
+patterns are masked wherever they match
+*/
+export interface HttpRedactionPolicy {
+  headers: string[];
+  cookies: string[];
+  queryParams: string[];
+  jsonPaths: string[];
+  patterns: RegExp[];
+}
+
+export interface HttpBasicAuth {
+  type: 'basic';
+  username: string;
+  password: string;
+}
+
+export interface HttpBearerAuth {
+  type: 'bearer';
+  token: string | (() => string | Promise<string>);
+}
+
+/* the same object has to be passed to every request for nonce counts to carry over between requests */
+export interface HttpDigestAuth {
+  type: 'digest';
+  username: string;
+  password: string;
+}
+
+export type HttpAuth = HttpBasicAuth | HttpBearerAuth | HttpDigestAuth;
+
+export interface HttpRedirectInfo {
+  from: URL;
+  to: URL;
+  status: number;
+  method: HttpMethod;
+  headers: HttpHeaders;
+}
+
+/*
+Phase durations in milliseconds, null when the phase did not happen:
+socket - until a socket was assigned, queueing in the agent included
+dns, connect, tls - lookup, TCP connect and TLS handshake on a new socket
+firstByte - from the socket being ready to the response headers
+download - from the response headers to the end of the body
+total - from the start of the request to the end of the body
+*/
+export interface HttpTimings {
+  url: string;
+  method: HttpMethod;
+  startedAt: number;
+  reusedSocket: boolean;
+  socket: number | null;
+  dns: number | null;
+  connect: number | null;
+  tls: number | null;
+  firstByte: number | null;
+  download: number | null;
+  total: number | null;
+}
+
+export interface HttpRedirect {
+  url: string;
+  location: string;
+  status: number;
+  method: HttpMethod;
+  headers: HttpHeaders;
+  setCookie: string[];
+}
+
+export interface HttpMiddlewareContext {
+  options: HttpRequestOptions<any, any, any>;
+  state: Record<string, unknown>;
+  onRedirect: (listener: (redirect: HttpRedirectInfo) => any) => void;
+}
+
+export type HttpMiddlewareNext = (
+  options?: HttpRequestOptions<any, any, any>
+) => Promise<HttpRequestResponse<any, any>>;
+
+export type HttpMiddleware = (
+  context: HttpMiddlewareContext,
+  next: HttpMiddlewareNext
+) => Promise<HttpRequestResponse<any, any>>;
+
+export interface HttpRetryContext {
+  attempt: number;
+  method: string;
+  url: URL;
+  status?: number;
+  headers?: HttpHeaders;
+  error?: unknown;
+}
+
+export interface HttpRetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  methods: HttpMethod[];
+  retryOnStatus: number[];
+  retryOnErrorCodes: string[];
+  /* the total timeout is never retried as the deadline covers every attempt */
+  retryOnTimeouts: HttpTimeoutPhase[];
+  respectRetryAfter: boolean;
+  shouldRetry?: (context: HttpRetryContext) => boolean;
+}
+
+/* a field missing from the event block leaves event as message and id as the last event id received */
+export interface HttpServerSentEvent {
+  event: string;
+  data: string;
+  id: string;
+  retry: number | null;
+}
+
+/*
+Reconnects an sse response that ended or failed with Last-Event-ID, after retryMs or the retry sent by the server;
+maxReconnects counts reconnects in a row without an event received, a 204 or an error status ends the iteration
+*/
+export interface HttpReconnectOptions {
+  maxReconnects: number;
+  retryMs: number;
+}
+
+export interface HttpAttemptError {
+  url: string;
+  attempt: number;
+  status?: number;
+  error?: string;
+  delayMs: number;
+}
+
+export interface HttpProgress {
+  transferredBytes: number;
+  totalBytes: number | null;
+  bytesPerSecond: number;
+}
+
+/**
+ * transferredBytes and totalBytes count bytes as received, decodedBytes counts them after decompression
+ */
+export interface HttpDownloadProgress extends HttpProgress {
+  decodedBytes: number;
+}
+
 export type ResponseStream = Readable & {
   headers: HttpHeaders;
   statusCode?: number;
   statusMessage?: string;
+  httpVersion?: string;
+  cacheStatus?: HttpCacheStatus;
 };
 
 export type MakeHttpRequest = (url: URL, options: RequestOptions, callback: (data: ResponseStream) => any) => Writable;
 
 export interface HttpRequestParams {
   validateJson?: (json: any) => boolean;
-  validateStatus?: number;
+  validateStatus?: HttpStatusValidator;
   assertNonEmptyResponse: boolean;
   dataType: HttpRequestDataType;
   responseType: HttpResponseType;
+  responseEncoding: string | null;
   formattedData: Readable | string | Buffer;
+  multipart: FormattedMultipartData | null;
   maxRedirects: number;
+  followRedirects: boolean | ((redirect: HttpRedirectInfo) => boolean | URL);
+  streamBodyChunks: Buffer[] | null;
+  sensitiveHeaders: string[];
+  trustedOrigins: string[];
+  hideSecrets: HttpSecret[];
+  redact: HttpRedactionPolicy;
+  retry: HttpRetryOptions | null;
+  reconnect: HttpReconnectOptions | null;
+  auth: HttpAuth | null;
+  cache: HttpCache | null;
+  onUploadProgress: ((progress: HttpProgress) => any) | null;
+  onDownloadProgress: ((progress: HttpDownloadProgress) => any) | null;
+  maxResponseBytes: number | null;
+  maxDecompressedBytes: number | null;
+  connectTimeout: number | null;
+  responseTimeout: number | null;
+  totalTimeout: number | null;
   logger: Logger;
   host: string;
   origin: string;
+  getAgent: HttpAgentResolver;
   makeRequest: MakeHttpRequest;
 }
 
@@ -81,6 +342,10 @@ export type HttpResponseDataType<T extends HttpResponseType, J> = T extends 'jso
   ? Buffer
   : T extends 'stream'
   ? Readable
+  : T extends 'sse'
+  ? AsyncIterableIterator<HttpServerSentEvent>
+  : T extends 'ndjson'
+  ? AsyncIterableIterator<J>
   : T extends 'string'
   ? string
   : never;
@@ -90,7 +355,12 @@ export interface HttpRequestResponse<T extends HttpResponseType, J = unknown> {
   statusMessage: string;
   url: URL;
   redirectUrls: string[];
+  redirects: HttpRedirect[];
   redirectCount: 0;
+  attempts: number;
+  attemptErrors: HttpAttemptError[];
+  timings: HttpTimings[];
+  cacheStatus: HttpCacheStatus | null;
   headers: HttpHeaders;
   cookies: Record<string, string>;
   data: HttpResponseDataType<T, J>;
@@ -105,16 +375,17 @@ export interface HttpRequestResponse<T extends HttpResponseType, J = unknown> {
     cookies: Record<string, string>;
   };
 }
-export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+export type HttpMethod =
+  | 'GET'
+  | 'HEAD'
+  | 'POST'
+  | 'PUT'
+  | 'PATCH'
+  | 'DELETE'
+  | 'OPTIONS'
+  | (string & Record<never, never>);
 
 export type ErrorWithStack = {
   message?: string;
   stack: string;
 } & Record<string, unknown>;
-
-export interface HttpRequestError {
-  message: string;
-  stack: string;
-  request: HttpRequestResponse<any>['request'];
-  response: Omit<HttpRequestResponse<any>, 'request'>;
-}
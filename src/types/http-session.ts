@@ -6,8 +6,17 @@ import type {
   HttpRequestResponse,
   HttpHeaders,
   MakeHttpRequest,
+  HttpRetryOptions,
+  HttpAuth,
+  HttpMiddleware,
+  HttpProxy,
+  HttpStatusValidator,
+  HttpRedactionPolicy,
 } from './http-request';
 import type { Logger } from './logger';
+import type { HttpCache } from '../cache/http-cache';
+import type { HarRecorder } from '../har';
+import type { HttpPaginate } from './paginate';
 
 export type HttpSessionStatus =
   | 'Logged Out'
@@ -45,6 +54,7 @@ export interface HttpSessionObject<S> {
   request: <T extends HttpRequestDataType, R extends HttpResponseType, J>(
     options: HttpRequestOptions<T, R, J>
   ) => Promise<HttpRequestResponse<R, J>>;
+  paginate: HttpPaginate;
   release: () => Promise<void>;
   serialize: () => HttpSessionSerializedData<S>;
   reportLockout: () => Promise<void>;
@@ -82,6 +92,21 @@ export interface HttpSessionParams<S, E, E2> {
   keepConnectionAlive: boolean;
   maxSocketsPerHost: number;
   connectionLifespanMs: number;
+  retry: Partial<HttpRetryOptions> | null;
+  auth: HttpAuth | null;
+  middleware: HttpMiddleware[];
+  proxy: HttpProxy | null;
+  cache: HttpCache | null;
+  har: HarRecorder | null;
+  maxResponseBytes: number | null;
+  maxDecompressedBytes: number | null;
+  connectTimeout: number | null;
+  responseTimeout: number | null;
+  totalTimeout: number | null;
+  sensitiveHeaders: string[];
+  trustedOrigins: (string | URL)[];
+  validateStatus: HttpStatusValidator | null;
+  redact: Partial<HttpRedactionPolicy> | null;
   enhanceLoginMethods?: (ref: symbol) => Promise<E>;
   enhanceLogoutMethods?: () => Promise<E2>;
   _makeHttpRequest: MakeHttpRequest;
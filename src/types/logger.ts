@@ -1,8 +1,31 @@
-export type LoggerFunction = (message: string, details?: string) => any;
+/* silent skips every message */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/*
+Fields sent along with a message so log pipelines can index them; httpRequest logs the events request, retry,
+auth_challenge, redirect and response. HttpSession adds sessionName, and requestId and ref to requests made through
+a session object.
+*/
+export interface LogEvent {
+  event?: string;
+  method?: string;
+  url?: string;
+  status?: number;
+  durationMs?: number;
+  sessionName?: string;
+  requestId?: number;
+  [field: string]: unknown;
+}
+
+export type LoggerFunction = (message: string, details?: string, event?: LogEvent) => any;
 
 export interface Logger {
   debug: LoggerFunction;
   info: LoggerFunction;
   warn: LoggerFunction;
   error: LoggerFunction;
+  /* messages below this level are not formatted; every message is logged when not set */
+  level?: LogLevel;
+  /* returns a logger adding fields to every event; used by createChildLogger when defined */
+  child?: (fields: LogEvent) => Logger;
 }
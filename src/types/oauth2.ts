@@ -0,0 +1,36 @@
+export type OAuth2GrantType = 'client_credentials' | 'password' | 'refresh_token';
+
+/*
+basic - client id and secret are sent in the Authorization header
+body - client id and secret are sent as client_id and client_secret form fields
+*/
+export type OAuth2ClientAuthentication = 'basic' | 'body';
+
+export interface OAuth2TokenManagerOptions {
+  grantType: OAuth2GrantType;
+  clientSecret: string | null;
+  clientAuthentication: OAuth2ClientAuthentication;
+  scope: string | string[] | null;
+  /* password grant; credentials set on the session are used when null */
+  username: string | null;
+  password: string | null;
+  /* refresh_token grant */
+  refreshToken: string | null;
+  /* how long before expires_in elapses the token is refreshed */
+  refreshBeforeExpiryMs: number;
+  /* sent with every token request, like audience or resource */
+  extraParams: Record<string, string>;
+}
+
+export interface OAuth2Token {
+  accessToken: string;
+  tokenType: string;
+  refreshToken: string | null;
+  scope: string | null;
+  /* null when the token endpoint did not send expires_in */
+  expiresAt: number | null;
+}
+
+export interface OAuth2SessionState {
+  oauth2: OAuth2Token | null;
+}
@@ -0,0 +1,65 @@
+import type { HttpRequestDataType, HttpRequestOptions, HttpRequestResponse, HttpResponseType } from './http-request';
+
+export interface HttpPaginationBaseStrategy {
+  /* iteration stops after this many pages; defaults to 100 */
+  maxPages?: number;
+  /* path of the array of items in the response JSON, like data.items; items are yielded instead of pages when set */
+  itemsPath?: string;
+}
+
+/* follows the rel="next" URL of the Link header */
+export interface HttpLinkPagination extends HttpPaginationBaseStrategy {
+  type: 'link';
+}
+
+/* follows the URL found at path in the response JSON, like links.next */
+export interface HttpNextUrlPagination extends HttpPaginationBaseStrategy {
+  type: 'next-url';
+  path: string;
+}
+
+/* sends the cursor found at path in the response JSON as the param query parameter */
+export interface HttpCursorPagination extends HttpPaginationBaseStrategy {
+  type: 'cursor';
+  path: string;
+  param: string;
+}
+
+/* stops at the first page with fewer than limit items */
+export interface HttpOffsetPagination extends HttpPaginationBaseStrategy {
+  type: 'offset';
+  limit: number;
+  /* defaults to offset */
+  param?: string;
+  /* defaults to limit; null when the limit is not sent */
+  limitParam?: string | null;
+  start?: number;
+}
+
+/* stops at the first empty page or, when pageSize is set, the first page with fewer items */
+export interface HttpPagePagination extends HttpPaginationBaseStrategy {
+  type: 'page';
+  /* defaults to page */
+  param?: string;
+  start?: number;
+  pageSize?: number;
+}
+
+export type HttpPaginationStrategy =
+  | HttpLinkPagination
+  | HttpNextUrlPagination
+  | HttpCursorPagination
+  | HttpOffsetPagination
+  | HttpPagePagination;
+
+/* responseType defaults to json; pages are yielded as responses, items when the strategy has itemsPath */
+export interface HttpPaginate {
+  <T extends HttpRequestDataType, R extends HttpResponseType = 'json', J = any>(
+    options: HttpRequestOptions<T, R, J>,
+    strategy: HttpPaginationStrategy & { itemsPath: string }
+  ): AsyncIterableIterator<unknown>;
+  <T extends HttpRequestDataType, R extends HttpResponseType = 'json', J = any>(
+    options: HttpRequestOptions<T, R, J>,
+    strategy: HttpPaginationStrategy
+  ): AsyncIterableIterator<HttpRequestResponse<R, J>>;
+}
@@ -0,0 +1,35 @@
+import type { HttpHeaders, MakeHttpRequest } from './http-request';
+
+export interface ReplayInteraction {
+  request: {
+    method: string;
+    url: string;
+    body?: string;
+  };
+  response: {
+    status: number;
+    statusMessage: string;
+    headers: HttpHeaders;
+    body: string;
+    encoding?: 'base64';
+  };
+}
+
+export interface ReplayCassette {
+  version: 1;
+  interactions: ReplayInteraction[];
+}
+
+/*
+replay - serve recorded responses only, unmatched requests fail
+record - send every request over the network and record it
+once - record when the cassette file does not exist yet, replay otherwise
+*/
+export type ReplayMode = 'replay' | 'record' | 'once';
+
+export interface ReplayTransportOptions {
+  mode: ReplayMode;
+  matchBody: boolean;
+  _makeHttpRequest: MakeHttpRequest;
+  _makeHttpsRequest: MakeHttpRequest;
+}
@@ -0,0 +1,187 @@
+import type { HttpHeaders, MakeHttpRequest } from '../src/types/http-request';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { HttpCache, MemoryCacheStore, FileSystemCacheStore } from '../src/cache';
+import { httpRequest, HttpSession, ResponseTooLargeError } from '../src';
+import { makeCookie } from '../src/cookies';
+import { mockHandlerHttpRequestFactory } from '../src/lib/mockHttpRequest';
+
+type Handler = (headers: HttpHeaders) => [number, string, HttpHeaders?];
+
+function mockCachingHttpRequestFactory(handler: Handler, calls: HttpHeaders[] = []): MakeHttpRequest {
+  return mockHandlerHttpRequestFactory(({ headers }) => {
+    calls.push(headers);
+    return handler(headers);
+  });
+}
+
+describe('HttpCache', () => {
+  it('serves fresh responses from the cache', async () => {
+    const calls: HttpHeaders[] = [];
+    const cache = new HttpCache();
+    const _request = mockCachingHttpRequestFactory(() => [200, 'fresh', { 'cache-control': 'max-age=60' }], calls);
+    const first = await httpRequest({ url: 'https://example.com/fresh', cache, _request });
+    const second = await httpRequest({ url: 'https://example.com/fresh', cache, _request });
+    const third = await httpRequest({ url: 'https://example.com/fresh', _request });
+    expect(first.cacheStatus).toBe('miss');
+    expect(second.cacheStatus).toBe('hit');
+    expect(second.data).toBe('fresh');
+    expect(second.status).toBe(200);
+    expect(third.cacheStatus).toBeNull();
+    expect(calls).toHaveLength(2);
+  });
+
+  it('revalidates stale responses with ETag and Last-Modified', async () => {
+    const calls: HttpHeaders[] = [];
+    const lastModified = new Date(Date.now() - 60_000).toUTCString();
+    const cache = new HttpCache();
+    const _request = mockCachingHttpRequestFactory(
+      (headers) =>
+        headers['If-None-Match'] === '"v1"'
+          ? [304, '', { etag: '"v1"', 'set-cookie': ['fresh=cookie'] }]
+          : [200, '{"a":1}', { etag: '"v1"', 'last-modified': lastModified, 'cache-control': 'no-cache' }],
+      calls
+    );
+    await httpRequest({ url: 'https://example.com/etag', cache, _request, responseType: 'json' });
+    const response = await httpRequest({ url: 'https://example.com/etag', cache, _request, responseType: 'json' });
+    expect(calls).toHaveLength(2);
+    expect(calls[1]['If-Modified-Since']).toBe(lastModified);
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual({ a: 1 });
+    expect(response.cacheStatus).toBe('revalidated');
+    expect(response.headers['set-cookie']).toEqual(['fresh=cookie']);
+  });
+
+  it('respects no-store, private and Vary', async () => {
+    const calls: HttpHeaders[] = [];
+    const sharedCache = new HttpCache({ shared: true });
+    const _request = mockCachingHttpRequestFactory(
+      (headers) =>
+        headers['Accept-Language'] === 'pl'
+          ? [200, 'private', { 'cache-control': 'private, max-age=60' }]
+          : [200, 'no-store', { 'cache-control': 'no-store, max-age=60' }],
+      calls
+    );
+    await httpRequest({ url: 'https://example.com/no-store', cache: sharedCache, _request });
+    await httpRequest({ url: 'https://example.com/no-store', cache: sharedCache, _request });
+    const privateHeaders = { 'Accept-Language': 'pl' };
+    await httpRequest({ url: 'https://example.com/private', headers: privateHeaders, cache: sharedCache, _request });
+    await httpRequest({ url: 'https://example.com/private', headers: privateHeaders, cache: sharedCache, _request });
+    expect(calls).toHaveLength(4);
+
+    const varyCalls: HttpHeaders[] = [];
+    const cache = new HttpCache();
+    const _varyRequest = mockCachingHttpRequestFactory(
+      (headers) => [
+        200,
+        headers['Accept-Language'] as string,
+        { 'cache-control': 'max-age=60', vary: 'Accept-Language' },
+      ],
+      varyCalls
+    );
+    const english = await httpRequest({ url: 'https://example.com/vary', cache, _request: _varyRequest });
+    const polish = await httpRequest({
+      url: 'https://example.com/vary',
+      headers: { 'Accept-Language': 'pl' },
+      cache,
+      _request: _varyRequest,
+    });
+    expect(english.data).toBe('en-GB,en;q=0.5');
+    expect(polish.data).toBe('pl');
+    expect(polish.cacheStatus).toBe('miss');
+    expect(varyCalls).toHaveLength(2);
+  });
+
+  it('never shares responses between requests with different cookies', async () => {
+    const cache = new HttpCache();
+    const _request = mockCachingHttpRequestFactory((headers) => [
+      200,
+      (headers.Cookie as string[]).join(';'),
+      { 'cache-control': 'max-age=60' },
+    ]);
+    const makeSession = (user: string) =>
+      new HttpSession({
+        cache,
+        cookies: [makeCookie({ key: 'user', value: user, domain: 'example.com' })],
+        _makeHttpsRequest: _request,
+      });
+    const alice = makeSession('alice');
+    const bob = makeSession('bob');
+    const aliceSession = await alice.requestSession();
+    const bobSession = await bob.requestSession();
+    const aliceResponse = await aliceSession.request({ url: 'https://example.com/me' });
+    const bobResponse = await bobSession.request({ url: 'https://example.com/me' });
+    const aliceCachedResponse = await aliceSession.request({ url: 'https://example.com/me' });
+    await alice.shutdown();
+    await bob.shutdown();
+    expect(aliceResponse.data).toBe('user=alice');
+    expect(bobResponse.data).toBe('user=bob');
+    expect(bobResponse.cacheStatus).toBe('miss');
+    expect(aliceCachedResponse.cacheStatus).toBe('hit');
+    expect(aliceCachedResponse.data).toBe('user=alice');
+  });
+
+  it('enforces maxResponseBytes before buffering responses to store them', async () => {
+    const cache = new HttpCache();
+    const body = 'x'.repeat(100);
+    const calls: HttpHeaders[] = [];
+    const _request = mockCachingHttpRequestFactory(
+      () => [200, body, { 'cache-control': 'max-age=60', 'content-length': '100' }],
+      calls
+    );
+    const declared = httpRequest({ url: 'https://example.com/large', cache, maxResponseBytes: 10, _request });
+    await expect(declared).rejects.toMatchObject({
+      code: 'ERR_RESPONSE_TOO_LARGE',
+      message: 'Response Content-Length 100 exceeds 10 bytes',
+    });
+    const undeclared = httpRequest({
+      url: 'https://example.com/large',
+      cache,
+      maxResponseBytes: 10,
+      _request: mockCachingHttpRequestFactory(() => [200, body, { 'cache-control': 'max-age=60' }], calls),
+    });
+    await expect(undeclared).rejects.toBeInstanceOf(ResponseTooLargeError);
+    await expect(undeclared).rejects.toMatchObject({ message: 'Response exceeded 10 bytes' });
+    const response = await httpRequest({ url: 'https://example.com/large', cache, maxResponseBytes: 100, _request });
+    expect(response.cacheStatus).toBe('miss');
+    expect(response.data).toBe(body);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('MemoryCacheStore evicts least recently used entries', () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    const entry = {
+      url: '',
+      method: 'GET',
+      status: 200,
+      statusMessage: '',
+      headers: {},
+      body: Buffer.from(''),
+      storedAt: 0,
+      varyHeaders: {},
+    };
+    store.set('a', entry);
+    store.set('b', entry);
+    store.get('a');
+    store.set('c', entry);
+    expect(store.get('a')).not.toBeNull();
+    expect(store.get('b')).toBeNull();
+    expect(store.get('c')).not.toBeNull();
+  });
+
+  it('FileSystemCacheStore persists entries', async () => {
+    const directory = path.join(tmpdir(), 'http-session-cache-' + process.pid);
+    const store = new FileSystemCacheStore(directory);
+    const calls: HttpHeaders[] = [];
+    const _request = mockCachingHttpRequestFactory(() => [200, 'persisted', { 'cache-control': 'max-age=60' }], calls);
+    await httpRequest({ url: 'https://example.com/fs', cache: new HttpCache({ store }), _request });
+    const response = await httpRequest({ url: 'https://example.com/fs', cache: new HttpCache({ store }), _request });
+    expect(response.data).toBe('persisted');
+    expect(response.cacheStatus).toBe('hit');
+    expect(calls).toHaveLength(1);
+    await store.clear();
+    expect(await fs.readdir(directory)).toHaveLength(0);
+    await fs.rmdir(directory);
+  });
+});
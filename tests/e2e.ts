@@ -68,6 +68,31 @@ describe('End to end', () => {
     expect(serverSockets.size).toBe(1);
   });
 
+  test('timings report connection phases and socket reuse', async () => {
+    const session = new HttpSession();
+    const { request } = await session.requestSession();
+    const unsubscribe = server.on('GET', '/timings', (_req, res) => {
+      res.write('first');
+      setTimeout(() => res.end('second'), 20);
+    });
+    const first = await request({ method: 'GET', url: 'http://localhost:3000/timings' });
+    const second = await request({ method: 'GET', url: 'http://localhost:3000/timings' });
+    unsubscribe();
+    await session.shutdown();
+    expect(first.timings).toHaveLength(1);
+    expect(first.timings[0]).toMatchObject({
+      url: 'http://localhost:3000/timings',
+      method: 'GET',
+      reusedSocket: false,
+    });
+    expect(first.timings[0].connect).toEqual(expect.any(Number));
+    expect(first.timings[0].tls).toBeNull();
+    expect(first.timings[0].download).toBeGreaterThanOrEqual(15);
+    expect(first.timings[0].total).toBeGreaterThanOrEqual(first.timings[0].download as number);
+    expect(second.timings[0]).toMatchObject({ reusedSocket: true, dns: null, connect: null });
+    expect(second.timings[0].firstByte).toEqual(expect.any(Number));
+  });
+
   test('sockets should not be re-used when keepConnectionAlive is false', async () => {
     const session = new HttpSession({
       keepConnectionAlive: false,
@@ -171,6 +196,53 @@ describe('End to end', () => {
     expect(err).not.toBe(null);
   });
 
+  test('PUT sends data and HEAD does not wait for a body', async () => {
+    const session = new HttpSession();
+    let putBody = '';
+    const unsubscribes = [
+      server.on('PUT', '/put', (req, res) => {
+        req.on('data', (chunk) => (putBody += chunk));
+        req.on('end', () => res.end('OK'));
+      }),
+      server.on('HEAD', '/head', (_, res) => {
+        res.setHeader('content-length', '1000');
+        res.end();
+      }),
+    ];
+    const { request } = await session.requestSession();
+    const putResponse = await request({ method: 'PUT', url: 'http://localhost:3000/put', data: 'abc' });
+    const headResponse = await request({ method: 'HEAD', url: 'http://localhost:3000/head' });
+    for (const unsubscribe of unsubscribes) unsubscribe();
+    await session.shutdown();
+    expect(putBody).toBe('abc');
+    expect(putResponse.data).toBe('OK');
+    expect(headResponse.headers['content-length']).toBe('1000');
+    expect(headResponse.data).toBe('');
+  });
+
+  test('Multipart data is uploaded', async () => {
+    const session = new HttpSession();
+    let contentType = '';
+    let body = '';
+    const unsubscribe = server.on('POST', '/multipart', (req, res) => {
+      contentType = req.headers['content-type'] || '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => res.end('OK'));
+    });
+    const { request } = await session.requestSession();
+    await request({
+      method: 'POST',
+      url: 'http://localhost:3000/multipart',
+      dataType: 'multipart',
+      data: { name: 'abc', upload: { value: createReadableStream('file contents'), filename: 'a.txt' } },
+    });
+    unsubscribe();
+    await session.shutdown();
+    expect(contentType).toMatch(/^multipart\/form-data; boundary=/);
+    expect(body).toMatch('filename="a.txt"');
+    expect(body).toMatch('file contents');
+  });
+
   afterAll(() => {
     return server.stop();
   });
@@ -0,0 +1,116 @@
+import type { MockRequest } from '../src/lib/mockHttpRequest';
+import { HttpSession, extractForms, parseForms, submitForm } from '../src';
+import { mockHandlerHttpRequestFactory } from '../src/lib/mockHttpRequest';
+
+const LOGIN_PAGE = `<!DOCTYPE html>
+<html>
+<head>
+  <title>Log in <form></title>
+  <base href="/app/">
+  <script>document.write('<form action="/fake"><input name="fake" value="1"></form>');</script>
+</head>
+<body>
+  <!-- <form action="/commented"><input name="commented"></form> -->
+  <form id="search" action="/search?old=1" method="get">
+    <input name="q" value="a &amp; b">
+    <input type="submit" name="go" value="Go">
+  </form>
+  <form id="login" action="login?step=2" method="POST">
+    <input type="hidden" name="__VIEWSTATE" value='dDwtMTA4NzM&#x3D;'>
+    <input type="hidden" name="csrf" value=abc123>
+    <input name="username">
+    <input type="password" name="password" value="">
+    <input type="checkbox" name="remember" checked>
+    <input type="checkbox" name="newsletter" value="yes">
+    <input type="radio" name="mode" value="fast">
+    <input type="radio" name="mode" value="safe" checked>
+    <input name="disabled" value="x" disabled>
+    <input type="file" name="avatar">
+    <select name="lang">
+      <option value="en">English</option>
+      <option selected>  Deutsch
+      </option>
+    </select>
+    <select name="tags" multiple>
+      <option value="a" selected>A</option>
+      <option value="b">B</option>
+      <option value="c" selected>C</option>
+    </select>
+    <select name="region"><option value="eu">EU<option value="us">US</select>
+    <textarea name="comment">
+line one &lt;b&gt;</textarea>
+    <button type="submit" name="action" value="login">Log in</button>
+  </form>
+  <input type="hidden" name="outside" value="1" form="login">
+  <form action="/upload" method="post" enctype="MULTIPART/FORM-DATA"><input name="title" value="t"></form>
+</body>
+</html>`;
+
+describe('forms', () => {
+  it('extracts forms with resolved actions and the values a browser would submit', () => {
+    const forms = parseForms(LOGIN_PAGE, 'https://example.com/account/login#top');
+    expect(forms).toHaveLength(3);
+    const [search, login, upload] = forms;
+    expect(search).toMatchObject({ id: 'search', method: 'GET', fields: { q: 'a & b' } });
+    expect(search.action.toString()).toBe('https://example.com/search?old=1');
+    expect(login.method).toBe('POST');
+    expect(login.enctype).toBe('application/x-www-form-urlencoded');
+    expect(login.action.toString()).toBe('https://example.com/app/login?step=2');
+    expect(login.fields).toEqual({
+      __VIEWSTATE: 'dDwtMTA4NzM=',
+      csrf: 'abc123',
+      username: '',
+      password: '',
+      remember: 'on',
+      mode: 'safe',
+      lang: 'Deutsch',
+      tags: ['a', 'c'],
+      region: 'eu',
+      comment: 'line one <b>',
+      outside: '1',
+    });
+    expect(upload.enctype).toBe('multipart/form-data');
+    expect(parseForms('<form><input name="a"></form>', 'https://example.com/page?x=1#y')[0].action.toString()).toBe(
+      'https://example.com/page?x=1#y'
+    );
+    expect(extractForms({ data: Buffer.from(LOGIN_PAGE), url: new URL('https://example.com/') })).toHaveLength(3);
+    expect(() => extractForms({ data: { json: true }, url: new URL('https://example.com/') })).toThrow(TypeError);
+  });
+
+  it('submits forms through the session with values merged in', async () => {
+    const requests: MockRequest[] = [];
+    const session = new HttpSession({
+      async login({ request }) {
+        const page = await request({ url: 'https://example.com/account/login' });
+        const [search, login, upload] = extractForms(page);
+        await submitForm(request, login, { username: 'user', password: 'p@ss', remember: null, tags: 'b' });
+        await submitForm(request, search, { q: 'x y' });
+        await submitForm(request, upload);
+      },
+      _makeHttpsRequest: mockHandlerHttpRequestFactory((request) => {
+        requests.push(request);
+        return [200, LOGIN_PAGE, { 'content-type': 'text/html' }];
+      }),
+    });
+    await session.requestSession().then((sessionObject) => sessionObject.release());
+    await session.shutdown();
+    const [, login, search, upload] = requests;
+    expect(login.url.toString()).toBe('https://example.com/app/login?step=2');
+    expect(login.options.method).toBe('POST');
+    expect(login.headers['Content-Type']).toBe('application/x-www-form-urlencoded');
+    expect(login.headers['Referer']).toBe('https://example.com/account/login');
+    expect(Object.fromEntries(new URLSearchParams(login.body.toString()))).toMatchObject({
+      csrf: 'abc123',
+      username: 'user',
+      password: 'p@ss',
+      tags: 'b',
+      comment: 'line one <b>',
+    });
+    expect(login.body.toString()).not.toContain('remember');
+    expect(search.url.toString()).toBe('https://example.com/search?q=x%20y');
+    expect(search.options.method).toBe('GET');
+    expect(search.body).toHaveLength(0);
+    expect(upload.headers['Content-Type']).toMatch(/^multipart\/form-data; boundary=/);
+    expect(upload.body.toString()).toContain('name="title"');
+  });
+});
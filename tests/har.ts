@@ -0,0 +1,137 @@
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { promises as fs, readFileSync } from 'node:fs';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { httpRequest, HttpSession, HarRecorder, InvalidUrlError } from '../src';
+import { mockSequenceHttpRequestFactory } from '../src/lib/mockHttpRequest';
+
+describe('HarRecorder', () => {
+  it('records every redirect hop with headers and cookies', async () => {
+    const har = new HarRecorder();
+    await httpRequest({
+      url: 'https://example.com/login?next=home',
+      har,
+      _request: mockSequenceHttpRequestFactory([
+        [302, '', { location: '/home', 'set-cookie': ['session=abc; Path=/; HttpOnly; Secure'] }],
+        [200, 'welcome', { 'content-type': 'text/plain' }],
+      ]),
+    });
+    const { log } = har.getHar();
+    expect(log.version).toBe('1.2');
+    expect(log.entries).toHaveLength(2);
+    const [redirect, final] = log.entries;
+    expect(redirect.request.url).toBe('https://example.com/login?next=home');
+    expect(redirect.request.queryString).toEqual([{ name: 'next', value: 'home' }]);
+    expect(redirect.response.status).toBe(302);
+    expect(redirect.response.redirectURL).toBe('https://example.com/home');
+    expect(redirect.response.cookies).toEqual([
+      { name: 'session', value: 'abc', path: '/', httpOnly: true, secure: true },
+    ]);
+    expect(final.request.method).toBe('GET');
+    expect(final.request.cookies).toEqual([{ name: 'session', value: 'abc' }]);
+    expect(final.request.headers).toContainEqual({ name: 'Cookie', value: 'session=abc' });
+    expect(final.response.status).toBe(200);
+    expect(final.response.content).toEqual({ size: 7, mimeType: 'text/plain' });
+    expect(final.timings.wait).toBeGreaterThanOrEqual(0);
+    expect(final.time).toBeGreaterThanOrEqual(final.timings.wait);
+    expect(new Date(final.startedDateTime).getTime()).toBeGreaterThanOrEqual(
+      new Date(redirect.startedDateTime).getTime()
+    );
+  });
+
+  it('includes bodies when asked to and redacts hideSecrets', async () => {
+    const har = new HarRecorder({ includeBodies: true });
+    await httpRequest({
+      url: 'https://example.com/login?token=s3cr3t',
+      method: 'POST',
+      dataType: 'form',
+      data: { username: 'user', password: 'p@ss word' },
+      hideSecrets: ['s3cr3t', 'p@ss word'],
+      har,
+      _request: mockSequenceHttpRequestFactory([[200, '{"echo":"p@ss word"}', { 'content-type': 'application/json' }]]),
+    });
+    const [entry] = har.getHar().log.entries;
+    expect(entry.request.url).toBe('https://example.com/login?token=[SECRET]');
+    expect(entry.request.queryString).toEqual([{ name: 'token', value: '[SECRET]' }]);
+    expect(entry.request.postData).toEqual({
+      mimeType: 'application/x-www-form-urlencoded',
+      text: 'username=user&password=[SECRET]',
+    });
+    expect(entry.response.content.text).toBe('{"echo":"[SECRET]"}');
+    expect(JSON.stringify(har.getHar())).not.toMatch(/s3cr3t|p@ss/);
+  });
+
+  it('records failed responses', async () => {
+    const har = new HarRecorder();
+    await expect(
+      httpRequest({
+        url: 'https://example.com/',
+        validateStatus: 200,
+        har,
+        _request: mockSequenceHttpRequestFactory([[500, 'error']]),
+      })
+    ).rejects.toMatchObject({ message: 'Response status 500 not matching expected status 200' });
+    const [entry] = har.getHar().log.entries;
+    expect(entry.response.status).toBe(500);
+    expect(entry.response._error).toBe('Response status 500 not matching expected status 200');
+
+    const invalidRedirectHar = new HarRecorder();
+    await expect(
+      httpRequest({
+        url: 'https://example.com/',
+        har: invalidRedirectHar,
+        _request: mockSequenceHttpRequestFactory([[302, '', { location: 'http://exa mple.com' }]]),
+      })
+    ).rejects.toBeInstanceOf(InvalidUrlError);
+    const [redirectEntry] = invalidRedirectHar.getHar().log.entries;
+    expect(redirectEntry.response.redirectURL).toBe('http://exa mple.com');
+    expect(redirectEntry.response._error).toBe('Redirected to invalid URL');
+  });
+
+  it('records all requests made through a session and saves them to a file', async () => {
+    const har = new HarRecorder();
+    const session = new HttpSession({
+      har,
+      _makeHttpsRequest: mockSequenceHttpRequestFactory([[200, 'ok']]),
+    });
+    const { request, release } = await session.requestSession();
+    await request({ url: 'https://example.com/a' });
+    await request({ url: 'https://example.com/b', har: false });
+    await request({ url: 'https://example.com/c' });
+    release();
+    await session.shutdown();
+    expect(har.getHar().log.entries.map((entry) => entry.request.url)).toEqual([
+      'https://example.com/a',
+      'https://example.com/c',
+    ]);
+    const filename = path.join(tmpdir(), `http-session-${process.pid}.har`);
+    await har.save(filename);
+    expect(JSON.parse(await fs.readFile(filename, 'utf8'))).toEqual(har.getHar());
+    await fs.unlink(filename);
+    har.clear();
+    expect(har.getHar().log.entries).toHaveLength(0);
+  });
+
+  it('fills connection timings measured for the hop and names the package as creator', async () => {
+    const server = http.createServer((_req, res) => res.end('ok'));
+    await new Promise<void>((resolve) => server.listen(0, () => resolve()));
+    const { port } = server.address() as AddressInfo;
+    const har = new HarRecorder();
+    try {
+      await httpRequest({ url: `http://localhost:${port}/`, agent: false, har });
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+    const { log } = har.getHar();
+    const { name, version } = JSON.parse(readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8'));
+    expect(log.creator).toEqual({ name, version });
+    const { timings } = log.entries[0];
+    expect(timings.blocked).toBeGreaterThanOrEqual(0);
+    expect(timings.dns).toBeGreaterThanOrEqual(0);
+    expect(timings.connect).toBeGreaterThanOrEqual(0);
+    expect(timings.ssl).toBe(-1);
+    expect(timings.wait).toBeGreaterThanOrEqual(0);
+    expect(timings.receive).toBeGreaterThanOrEqual(0);
+  });
+});
@@ -1,11 +1,36 @@
 import type { RequestOptions } from 'node:https';
-import type { MakeHttpRequest, HttpHeaders } from '../src/types/http-request';
+import type {
+  MakeHttpRequest,
+  HttpHeaders,
+  HttpProgress,
+  HttpDownloadProgress,
+  HttpStatusContext,
+} from '../src/types/http-request';
 import type { Cookie } from '../src/types/cookies';
 
-import { mockHttpRequestFactory } from '../src/lib/mockHttpRequest';
+import {
+  mockHandlerHttpRequestFactory,
+  mockHttpRequestFactory,
+  mockSequenceHttpRequestFactory,
+} from '../src/lib/mockHttpRequest';
 import { isHttpRequestError } from '../src/http-request';
-import { httpRequest } from '../src';
-import { Writable } from 'node:stream';
+import {
+  httpRequest,
+  AbortError,
+  HarRecorder,
+  HttpRequestError,
+  HttpStatusError,
+  HttpTimeoutError,
+  InvalidJsonError,
+  InvalidUrlError,
+  NetworkError,
+  ResponseValidationError,
+  TooManyRedirectsError,
+} from '../src';
+import { Readable, Writable } from 'node:stream';
+import { EventEmitter } from 'node:events';
+import { gzipSync } from 'node:zlib';
+import { createHash } from 'node:crypto';
 import { CookieJar, makeCookie } from '../src/cookies';
 import { callbackPromise } from '../src/lib/callbackPromise';
 import { collectStreamToString } from '../src/lib/collectStreamToString';
@@ -65,6 +90,48 @@ function mockCustomResponseHttpRequestFactory(
   };
 }
 
+function mockDigestHttpRequestFactory(sentHeaders: HttpHeaders[], nonce = 'abc123'): MakeHttpRequest {
+  const md5 = (str: string) => createHash('md5').update(str).digest('hex');
+  return mockHandlerHttpRequestFactory(({ options, headers }) => {
+    sentHeaders.push(headers);
+    const params: Record<string, string> = {};
+    String(headers.Authorization || '').replace(/(\w+)=(?:"([^"]*)"|([^\s,]+))/g, (_match, name, quoted, token) => {
+      params[name] = typeof quoted === 'string' ? quoted : token;
+      return '';
+    });
+    const ha1 = md5(`user:test@example.com:hunter2`);
+    const ha2 = md5(`${options.method}:${params.uri}`);
+    const expected = md5(`${ha1}:${nonce}:${params.nc}:${params.cnonce}:auth:${ha2}`);
+    if (params.nonce === nonce && params.response === expected) return [200, 'ok'];
+    return [
+      401,
+      '',
+      {
+        'www-authenticate': [
+          'Basic realm="test@example.com"',
+          `Digest realm="test@example.com", qop="auth,auth-int", nonce="${nonce}", opaque="xyz"`,
+        ],
+      },
+    ];
+  });
+}
+
+function makeErrorWithCode(code: string): Error {
+  return Object.assign(new Error(code), { code });
+}
+
+type MockConnection = [number, string | string[] | Readable, HttpHeaders?];
+
+function mockEventStreamHttpRequestFactory(
+  respond: (headers: HttpHeaders, connection: number) => MockConnection
+): MakeHttpRequest {
+  let connection = 0;
+  return mockHandlerHttpRequestFactory(({ headers }) => {
+    const [statusCode, body, responseHeaders] = respond(headers, connection++);
+    return [statusCode, Array.isArray(body) ? Readable.from(body) : body, responseHeaders];
+  });
+}
+
 async function captureError(fn: () => Promise<any>): Promise<unknown> {
   try {
     await fn();
@@ -504,6 +571,73 @@ describe('httpRequest', () => {
     expect(err).not.toBeNull();
   });
 
+  it('validates response status against lists, ranges and predicates', async () => {
+    const _request = mockCustomResponseHttpRequestFactory({
+      'https://example.com/204': () => ['data', 204, ''],
+      'https://example.com/302': () => ['redirect', 302, 'https://example.com/204'],
+      'https://example.com/500': () => ['data', 500, 'bad'],
+    });
+    const listResponse = await httpRequest({ url: 'https://example.com/204', validateStatus: [200, 204], _request });
+    expect(listResponse.status).toBe(204);
+    const rangeResponse = await httpRequest({ url: 'https://example.com/302', validateStatus: '2xx', _request });
+    expect(rangeResponse.status).toBe(204);
+    await expect(
+      httpRequest({ url: 'https://example.com/500', validateStatus: ['2xx', 404], _request })
+    ).rejects.toMatchObject({
+      code: 'ERR_HTTP_STATUS',
+      message: 'Response status 500 not matching expected status 2xx, 404',
+    });
+
+    const contexts: HttpStatusContext[] = [];
+    const predicate = (status: number, response: HttpStatusContext) => {
+      contexts.push(response);
+      return status < 500;
+    };
+    await httpRequest({ url: 'https://example.com/204', validateStatus: predicate, _request });
+    await expect(
+      httpRequest({ url: 'https://example.com/500', validateStatus: predicate, _request })
+    ).rejects.toMatchObject({
+      status: 500,
+      message: 'Response status 500 rejected by validateStatus',
+    });
+    expect(contexts[0]).toMatchObject({ status: 204, method: 'GET', url: new URL('https://example.com/204') });
+
+    await expect(
+      httpRequest({ url: 'https://example.com/204', validateStatus: '2x' as any, _request })
+    ).rejects.toThrow('Invalid validateStatus: "2x"');
+    await expect(httpRequest({ url: 'https://example.com/204', validateStatus: [], _request })).rejects.toThrow(
+      TypeError
+    );
+  });
+
+  it('records timings for every request sent', async () => {
+    const messages: string[] = [];
+    const log = (...args: string[]) => messages.push(args.join('\n'));
+    const logger = { debug: log, warn: log, info: log, error: log };
+    const response = await httpRequest({
+      url: 'https://example.com/a',
+      retry: { maxAttempts: 2, baseDelayMs: 1 },
+      logger,
+      _request: mockSequenceHttpRequestFactory([
+        [503, ''],
+        [302, '', { location: 'https://example.com/b' }],
+        [200, 'ok'],
+      ]),
+    });
+    expect(response.timings.map(({ url }) => url)).toEqual([
+      'https://example.com/a',
+      'https://example.com/a',
+      'https://example.com/b',
+    ]);
+    const [timings] = response.timings.slice(-1);
+    expect(timings).toMatchObject({ method: 'GET', reusedSocket: false, socket: null, dns: null, tls: null });
+    expect(timings.startedAt).toBeLessThanOrEqual(Date.now());
+    expect(timings.firstByte).toBeGreaterThanOrEqual(0);
+    expect(timings.download).toBeGreaterThanOrEqual(0);
+    expect(timings.total).toBeGreaterThanOrEqual(timings.firstByte as number);
+    expect(messages.filter((message) => message.startsWith('RESPONSE'))[0]).toContain('"firstByte"');
+  });
+
   it('checks for empty responses', async () => {
     let err: any = null;
     const makeHttpRequest = mockCustomResponseHttpRequestFactory({
@@ -563,4 +697,1170 @@ describe('httpRequest', () => {
     }
     expect(err).not.toBeNull();
   });
+
+  it('retries failed attempts with backoff', async () => {
+    const logs: string[] = [];
+    const log = (message: string) => logs.push(message);
+    const logger = { debug: log, warn: log, info: log, error: log };
+    const makeHttpRequest = mockSequenceHttpRequestFactory([
+      makeErrorWithCode('ECONNRESET'),
+      [503, 'unavailable'],
+      [200, 'ok'],
+    ]);
+    const response = await httpRequest({
+      url: 'https://example.com/retry',
+      retry: { maxAttempts: 3, baseDelayMs: 1 },
+      logger,
+      _request: makeHttpRequest,
+    });
+    expect(response.data).toBe('ok');
+    expect(response.attempts).toBe(3);
+    expect(response.attemptErrors).toHaveLength(2);
+    expect(response.attemptErrors[0]).toMatchObject({ attempt: 1, error: 'ECONNRESET' });
+    expect(response.attemptErrors[1]).toMatchObject({ attempt: 2, status: 503 });
+    expect(logs.filter((message) => message.startsWith('RETRY'))).toHaveLength(2);
+  });
+
+  it('redacts the url and error of failed attempts attached to errors', async () => {
+    const logs: string[] = [];
+    const log = (message: string, details = '') => logs.push(message + details);
+    const logger = { debug: log, warn: log, info: log, error: log };
+    const err = await captureError(() =>
+      httpRequest({
+        url: 'https://example.com/retry?access_token=SECRET123',
+        retry: { maxAttempts: 2, baseDelayMs: 1 },
+        hideSecrets: ['hunter2'],
+        logger,
+        _request: mockSequenceHttpRequestFactory([
+          Object.assign(new Error('socket hang up hunter2'), { code: 'ECONNRESET' }),
+        ]),
+      })
+    );
+    expect(err).toBeInstanceOf(NetworkError);
+    const { attemptErrors } = (err as NetworkError).response;
+    expect(attemptErrors).toHaveLength(1);
+    expect(attemptErrors[0].url).not.toContain('SECRET123');
+    expect(attemptErrors[0].error).not.toContain('hunter2');
+    expect(logs.join('\n')).not.toMatch(/SECRET123|hunter2/);
+  });
+
+  it('gives up after maxAttempts and does not retry non-idempotent methods by default', async () => {
+    const calls: string[] = [];
+    const makeHttpRequest = mockSequenceHttpRequestFactory([makeErrorWithCode('ECONNRESET')], calls);
+    const err = await captureError(() =>
+      httpRequest({ url: 'https://example.com', retry: { maxAttempts: 2, baseDelayMs: 1 }, _request: makeHttpRequest })
+    );
+    expect(err).toMatchObject({ code: 'ECONNRESET' });
+    expect(calls).toHaveLength(2);
+    const postCalls: string[] = [];
+    const makePostHttpRequest = mockSequenceHttpRequestFactory(
+      [
+        [503, ''],
+        [200, 'ok'],
+      ],
+      postCalls
+    );
+    const response = await httpRequest({
+      method: 'POST',
+      url: 'https://example.com',
+      retry: { baseDelayMs: 1 },
+      _request: makePostHttpRequest,
+    });
+    expect(response.status).toBe(503);
+    expect(postCalls).toHaveLength(1);
+  });
+
+  it('rejects with AbortError when aborted during the retry backoff', async () => {
+    const controller = new AbortController();
+    const calls: string[] = [];
+    const makeHttpRequest = mockSequenceHttpRequestFactory([makeErrorWithCode('ECONNRESET'), [200, 'ok']], calls);
+    setTimeout(() => controller.abort(), 20);
+    const err = await captureError(() =>
+      httpRequest({
+        url: 'https://example.com',
+        retry: { baseDelayMs: 10_000 },
+        abortSignal: controller.signal,
+        _request: makeHttpRequest,
+      })
+    );
+    expect(err).toBeInstanceOf(AbortError);
+    expect(err).toMatchObject({ name: 'AbortError', code: 'ABORT_ERR', message: 'The operation was aborted' });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('honors Retry-After header and shouldRetry predicate', async () => {
+    const makeHttpRequest = mockSequenceHttpRequestFactory([
+      [429, '', { 'retry-after': '0' }],
+      [418, '', { 'Retry-After': new Date(Date.now() - 1000).toUTCString() }],
+      [200, 'ok'],
+    ]);
+    const start = Date.now();
+    const response = await httpRequest({
+      url: 'https://example.com',
+      retry: { baseDelayMs: 10_000, shouldRetry: ({ status }) => status !== 200 },
+      _request: makeHttpRequest,
+    });
+    expect(response.data).toBe('ok');
+    expect(response.attemptErrors[0]).toMatchObject({ status: 429, delayMs: 0 });
+    expect(response.attemptErrors[1]).toMatchObject({ status: 418, delayMs: 0 });
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('sets content headers according to method', async () => {
+    const sentHeaders: Record<string, HttpHeaders> = {};
+    const makeHttpRequest = mockHeadersHttpRequestFactory(() => ({}));
+    const recordHeaders =
+      (method: string): MakeHttpRequest =>
+      (url, options, cb) => {
+        sentHeaders[method] = options.headers as HttpHeaders;
+        return makeHttpRequest(url, options, cb);
+      };
+    for (const method of ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS', 'PROPFIND']) {
+      await httpRequest({ method, url: 'https://example.com', dataType: 'json', _request: recordHeaders(method) });
+    }
+    await httpRequest({
+      method: 'OPTIONS',
+      url: 'https://example.com',
+      dataType: 'json',
+      data: { a: 1 },
+      _request: recordHeaders('OPTIONS with data'),
+    });
+    expect(sentHeaders['GET']['Content-Length']).toBeUndefined();
+    expect(sentHeaders['HEAD']['Content-Length']).toBeUndefined();
+    expect(sentHeaders['PUT']).toMatchObject({ 'Content-Length': 0, 'Content-Type': 'application/json' });
+    expect(sentHeaders['DELETE']['Content-Length']).toBeUndefined();
+    expect(sentHeaders['OPTIONS']['Content-Type']).toBeUndefined();
+    expect(sentHeaders['PROPFIND']['Content-Length']).toBeUndefined();
+    expect(sentHeaders['OPTIONS with data']).toMatchObject({ 'Content-Length': 7, 'Content-Type': 'application/json' });
+  });
+
+  it('does not read response body for HEAD requests and 204/304 responses', async () => {
+    const makeHttpRequest = mockCustomResponseHttpRequestFactory({
+      'https://example.com/head': () => ['data', 200, 'should not be read'],
+      'https://example.com/no-content': () => ['data', 204, ''],
+      'https://example.com/not-modified': () => ['data', 304, ''],
+    });
+    const headResponse = await httpRequest({
+      method: 'HEAD',
+      url: 'https://example.com/head',
+      _request: makeHttpRequest,
+    });
+    expect(headResponse.data).toBe('');
+    const noContentResponse = await httpRequest({
+      method: 'PUT',
+      url: 'https://example.com/no-content',
+      responseType: 'json',
+      _request: makeHttpRequest,
+    });
+    expect(noContentResponse.status).toBe(204);
+    expect(noContentResponse.data).toBeNull();
+    const notModifiedResponse = await httpRequest({
+      url: 'https://example.com/not-modified',
+      responseType: 'binary',
+      _request: makeHttpRequest,
+    });
+    expect(notModifiedResponse.status).toBe(304);
+    expect(notModifiedResponse.redirectCount).toBe(0);
+    expect(notModifiedResponse.data).toHaveLength(0);
+  });
+
+  it('changes method on redirect following RFC 9110', async () => {
+    const methods: Record<string, string | undefined> = {};
+    const makeHttpRequest = mockCustomResponseHttpRequestFactory({
+      'https://example.com/put': () => ['redirect', 301, '/put-target'],
+      'https://example.com/put-target': ({ method }, data) => {
+        methods['put-target'] = `${method} ${data}`;
+        return ['data', 200, ''];
+      },
+      'https://example.com/post': () => ['redirect', 302, '/post-target'],
+      'https://example.com/post-target': ({ method, headers }, data) => {
+        methods['post-target'] = `${method} ${data} ${(headers as HttpHeaders)['Content-Length']}`;
+        return ['data', 200, ''];
+      },
+      'https://example.com/head': () => ['redirect', 303, '/head-target'],
+      'https://example.com/head-target': ({ method }) => {
+        methods['head-target'] = method;
+        return ['data', 200, ''];
+      },
+      'https://example.com/upload': () => ['redirect', 303, '/upload-target'],
+      'https://example.com/upload-target': ({ method, headers }) => {
+        methods['upload-target'] = `${method} ${(headers as HttpHeaders)['Transfer-Encoding']}`;
+        return ['data', 200, ''];
+      },
+      'https://example.com/delete': () => ['redirect', 303, '/delete-target'],
+      'https://example.com/delete-target': ({ method }) => {
+        methods['delete-target'] = method;
+        return ['data', 200, ''];
+      },
+    });
+    await httpRequest({ method: 'PUT', url: 'https://example.com/put', data: 'abc', _request: makeHttpRequest });
+    await httpRequest({ method: 'POST', url: 'https://example.com/post', data: 'abc', _request: makeHttpRequest });
+    await httpRequest({ method: 'HEAD', url: 'https://example.com/head', _request: makeHttpRequest });
+    await httpRequest({ method: 'DELETE', url: 'https://example.com/delete', _request: makeHttpRequest });
+    await httpRequest({
+      method: 'POST',
+      url: 'https://example.com/upload',
+      dataType: 'multipart',
+      data: { file: createReadableStream('streamed') },
+      _request: makeHttpRequest,
+    });
+    expect(methods).toEqual({
+      'put-target': 'PUT abc',
+      'post-target': 'GET  undefined',
+      'head-target': 'HEAD',
+      'delete-target': 'GET',
+      'upload-target': 'GET undefined',
+    });
+  });
+
+  it('formats multipart data with known length', async () => {
+    const [dataReceivedPromise, dataReceivedCb] = callbackPromise<any>();
+    let headers: HttpHeaders = {};
+    const makeHttpRequest = mockHttpRequestFactory({
+      returns: '',
+      statusCode: 200,
+      binary: true,
+      onDataReceived: dataReceivedCb,
+      onOptionsReceived: (options) => (headers = options.headers as HttpHeaders),
+    });
+    await httpRequest({
+      method: 'POST',
+      url: 'https://example.com/upload',
+      dataType: 'multipart',
+      data: {
+        field: 'value',
+        list: ['a', 'b'],
+        buffer: Buffer.from('binary'),
+        file: { value: createReadableStream('streamed'), filename: 'file "1".txt', contentType: 'text/plain', size: 8 },
+      },
+      _request: makeHttpRequest,
+    });
+    const body: string = (await dataReceivedPromise).toString();
+    const boundary = (headers['Content-Type'] as string).replace('multipart/form-data; boundary=', '');
+    expect(boundary.length).toBeGreaterThan(20);
+    expect(headers['Content-Length']).toBe(Buffer.byteLength(body));
+    expect(body).toBe(
+      [
+        `--${boundary}`,
+        'Content-Disposition: form-data; name="field"',
+        '',
+        'value',
+        `--${boundary}`,
+        'Content-Disposition: form-data; name="list"',
+        '',
+        'a',
+        `--${boundary}`,
+        'Content-Disposition: form-data; name="list"',
+        '',
+        'b',
+        `--${boundary}`,
+        'Content-Disposition: form-data; name="buffer"; filename="buffer"',
+        'Content-Type: application/octet-stream',
+        '',
+        'binary',
+        `--${boundary}`,
+        'Content-Disposition: form-data; name="file"; filename="file %221%22.txt"',
+        'Content-Type: text/plain',
+        '',
+        'streamed',
+        `--${boundary}--`,
+        '',
+      ].join('\r\n')
+    );
+  });
+
+  it('uses chunked encoding for multipart streams of unknown length and hides multipart secrets', async () => {
+    const logs: string[] = [];
+    const log = (_message: string, details = '') => logs.push(details);
+    const logger = { debug: log, warn: log, info: log, error: log };
+    let headers: HttpHeaders = {};
+    const makeHttpRequest = mockHttpRequestFactory({
+      returns: '',
+      statusCode: 200,
+      onOptionsReceived: (options) => (headers = options.headers as HttpHeaders),
+    });
+    await httpRequest({
+      method: 'POST',
+      url: 'https://example.com/upload',
+      dataType: 'multipart',
+      data: { password: 'hunter2', file: createReadableStream('streamed') },
+      hideSecrets: ['hunter2'],
+      logger,
+      _request: makeHttpRequest,
+    });
+    expect(headers['Transfer-Encoding']).toBe('chunked');
+    expect(headers['Content-Length']).toBeUndefined();
+    expect(logs[0]).not.toMatch('hunter2');
+    expect(logs[0]).toMatch('[STREAM]');
+  });
+
+  it('runs middleware in order allowing options rewrite, short-circuit and error mapping', async () => {
+    const order: string[] = [];
+    const redirects: string[] = [];
+    const makeHttpRequest = mockCustomResponseHttpRequestFactory({
+      'https://example.com/start': () => ['redirect', 302, '/signed'],
+      'https://example.com/signed': ({ headers }) => ['data', 200, (headers as HttpHeaders)['X-Signature'] as string],
+      'https://example.com/error': () => ['data', 500, 'bad'],
+    });
+    const response = await httpRequest({
+      url: 'https://example.com/start',
+      _request: makeHttpRequest,
+      middleware: [
+        async (ctx, next) => {
+          order.push('first:before');
+          ctx.onRedirect((redirect) => redirects.push(`${redirect.status} ${redirect.to}`));
+          const response = await next();
+          order.push('first:after');
+          return { ...response, data: response.data.toUpperCase() };
+        },
+        async (ctx, next) => {
+          order.push('second');
+          return next({ ...ctx.options, headers: { ...ctx.options.headers, 'X-Signature': 'signed' } });
+        },
+      ],
+    });
+    expect(response.data).toBe('SIGNED');
+    expect(order).toEqual(['first:before', 'second', 'first:after']);
+    expect(redirects).toEqual(['302 https://example.com/signed']);
+
+    const calls: string[] = [];
+    const shortCircuited = await httpRequest({
+      url: 'https://example.com/never-called',
+      _request: mockSequenceHttpRequestFactory([[200, 'real']], calls),
+      middleware: [async (ctx) => ({ status: 200, url: new URL(ctx.options.url), data: 'synthetic' } as any)],
+    });
+    expect(shortCircuited.data).toBe('synthetic');
+    expect(calls).toHaveLength(0);
+
+    const err = await captureError(() =>
+      httpRequest({
+        url: 'https://example.com/error',
+        validateStatus: 200,
+        _request: makeHttpRequest,
+        middleware: [
+          async (_ctx, next) => {
+            try {
+              return await next();
+            } catch (error) {
+              throw Object.assign(new Error('Mapped error'), { original: error });
+            }
+          },
+        ],
+      })
+    );
+    expect(err).toMatchObject({ message: 'Mapped error' });
+    expect(isHttpRequestError((err as any).original)).toBe(true);
+  });
+
+  it('should report upload and download progress', async () => {
+    const uploaded: HttpProgress[] = [];
+    const downloaded: HttpDownloadProgress[] = [];
+    const returns = gzipSync(Buffer.alloc(100_000, 'a'));
+    const response = await httpRequest({
+      url: 'https://example.com/upload',
+      method: 'POST',
+      dataType: 'binary',
+      data: Buffer.alloc(25, 'b'),
+      responseType: 'binary',
+      onUploadProgress: (progress) => uploaded.push(progress),
+      onDownloadProgress: (progress) => downloaded.push(progress),
+      _request: mockHttpRequestFactory({
+        returns,
+        statusCode: 200,
+        headers: { 'content-encoding': 'gzip', 'content-length': String(returns.length) },
+      }),
+    });
+    expect(response.data).toHaveLength(100_000);
+    expect(uploaded.map((progress) => progress.transferredBytes)).toEqual([10, 20, 25]);
+    expect(uploaded.every((progress) => progress.totalBytes === 25 && progress.bytesPerSecond >= 0)).toBe(true);
+    const last = downloaded[downloaded.length - 1];
+    expect(last).toMatchObject({ transferredBytes: returns.length, totalBytes: returns.length, decodedBytes: 100_000 });
+    expect(
+      downloaded.every((progress, index) => index === 0 || progress.decodedBytes >= downloaded[index - 1].decodedBytes)
+    ).toBe(true);
+  });
+
+  it('should abort responses exceeding size limits', async () => {
+    let announcedStream: Readable | null = null;
+    const announced = await captureError(() =>
+      httpRequest({
+        url: 'https://example.com/announced',
+        maxResponseBytes: 100,
+        _request: (_url, _options, cb) => {
+          const requestStream = new Writable({
+            write(_chunk, _enc, cb) {
+              cb();
+            },
+          });
+          const responseStream = Object.assign(createReadableStream('x'.repeat(1000)), {
+            statusCode: 200,
+            statusMessage: '',
+            headers: { 'content-length': '1000' },
+          });
+          announcedStream = responseStream;
+          setTimeout(() => cb(responseStream), 1);
+          return requestStream;
+        },
+      })
+    );
+    expect(isHttpRequestError(announced)).toBe(true);
+    expect(announced).toMatchObject({ code: 'ERR_RESPONSE_TOO_LARGE' });
+    expect(announcedStream && (announcedStream as Readable).destroyed).toBe(true);
+
+    const unannounced = await captureError(() =>
+      httpRequest({
+        url: 'https://example.com/unannounced',
+        maxResponseBytes: 100,
+        _request: mockHttpRequestFactory({ returns: 'x'.repeat(1000), statusCode: 200 }),
+      })
+    );
+    expect(isHttpRequestError(unannounced)).toBe(true);
+    expect(unannounced).toMatchObject({ code: 'ERR_RESPONSE_TOO_LARGE', message: 'Response exceeded 100 bytes' });
+
+    const bomb = gzipSync(Buffer.alloc(1_000_000));
+    const decompressed = await captureError(() =>
+      httpRequest({
+        url: 'https://example.com/bomb',
+        responseType: 'binary',
+        maxResponseBytes: 10_000,
+        maxDecompressedBytes: 10_000,
+        _request: mockHttpRequestFactory({ returns: bomb, statusCode: 200, headers: { 'content-encoding': 'gzip' } }),
+      })
+    );
+    expect(bomb.length).toBeLessThan(10_000);
+    expect(decompressed).toMatchObject({ code: 'ERR_DECOMPRESSED_RESPONSE_TOO_LARGE' });
+
+    const response = await httpRequest({
+      url: 'https://example.com/stream',
+      responseType: 'stream',
+      maxResponseBytes: 100,
+      _request: mockHttpRequestFactory({ returns: 'x'.repeat(1000), statusCode: 200 }),
+    });
+    await expect(collectStreamToString(response.data)).rejects.toMatchObject({ code: 'ERR_RESPONSE_TOO_LARGE' });
+  });
+
+  it('should decode text according to charset, BOM and meta tags', async () => {
+    const request = (returns: Buffer, headers: HttpHeaders = {}, responseEncoding?: string) =>
+      httpRequest({
+        url: 'https://example.com/',
+        responseEncoding,
+        _request: mockHttpRequestFactory({ returns, statusCode: 200, headers }),
+      }).then((response) => response.data);
+    const polish = 'zażółć gęślą jaźń';
+    expect(await request(Buffer.from(polish))).toBe(polish);
+    const latin = Buffer.from([0x80, 0x20, 0x63, 0x61, 0x66, 0xe9]);
+    expect(await request(latin, { 'content-type': 'text/plain; charset=windows-1252' })).toBe('€ café');
+    expect(await request(latin, { 'content-type': 'text/plain; charset="ISO-8859-1"' })).toBe('€ café');
+    const html = Buffer.concat([Buffer.from('<html><head><meta charset="windows-1252"></head><body>'), latin]);
+    expect(await request(html, { 'content-type': 'text/html' })).toMatch(/€ café$/);
+    const httpEquiv = Buffer.concat([
+      Buffer.from('<meta http-equiv="Content-Type" content="text/html; charset=iso-8859-2">'),
+      Buffer.from([0xb1]),
+    ]);
+    expect(await request(httpEquiv)).toMatch(/ą$/);
+    const utf16 = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(polish, 'utf16le')]);
+    expect(await request(utf16)).toBe(polish);
+    expect(await request(latin, { 'content-type': 'text/plain; charset=utf-8' }, 'windows-1252')).toBe('€ café');
+    const json = await httpRequest({
+      url: 'https://example.com/',
+      responseType: 'json',
+      _request: mockHttpRequestFactory({ returns: Buffer.from(JSON.stringify({ polish })), statusCode: 200 }),
+    });
+    expect(json.data).toEqual({ polish });
+    await expect(request(latin, {}, 'not-an-encoding')).rejects.toThrow(
+      'Unsupported responseEncoding: not-an-encoding'
+    );
+  });
+
+  it('should follow redirects according to followRedirects and record their history', async () => {
+    const redirectResponses: [number, string, HttpHeaders?][] = [
+      [302, '', { location: '/second', 'set-cookie': ['step=1'] }],
+      [301, '', { location: 'https://other.com/third' }],
+      [200, 'done'],
+    ];
+    const calls: string[] = [];
+    const followed = await httpRequest({
+      url: 'https://example.com/first',
+      _request: mockSequenceHttpRequestFactory(redirectResponses, calls),
+    });
+    expect(followed.data).toBe('done');
+    expect(followed.redirects).toEqual([
+      {
+        url: 'https://example.com/first',
+        location: 'https://example.com/second',
+        status: 302,
+        method: 'GET',
+        headers: { location: '/second', 'set-cookie': ['step=1'] },
+        setCookie: ['step=1'],
+      },
+      {
+        url: 'https://example.com/second',
+        location: 'https://other.com/third',
+        status: 301,
+        method: 'GET',
+        headers: { location: 'https://other.com/third' },
+        setCookie: [],
+      },
+    ]);
+
+    const stopped = await httpRequest({
+      url: 'https://example.com/first',
+      followRedirects: false,
+      _request: mockSequenceHttpRequestFactory(redirectResponses),
+    });
+    expect(stopped.status).toBe(302);
+    expect(stopped.redirects).toHaveLength(0);
+
+    const rewrittenCalls: string[] = [];
+    const rewritten = await httpRequest({
+      url: 'https://example.com/first',
+      followRedirects: ({ to }) => (to.hostname === 'other.com' ? false : new URL(to.pathname, 'https://mirror.com')),
+      _request: mockSequenceHttpRequestFactory(
+        [
+          [302, '', { location: '/second' }],
+          [302, '', { location: 'https://other.com/third' }],
+        ],
+        rewrittenCalls
+      ),
+    });
+    expect(rewrittenCalls).toEqual(['https://example.com/first', 'https://mirror.com/second']);
+    expect(rewritten.status).toBe(302);
+    expect(rewritten.redirectUrls).toEqual(['https://mirror.com/second']);
+  });
+
+  it('should detect redirect loops', async () => {
+    const err = await captureError(() =>
+      httpRequest({
+        url: 'https://example.com/a',
+        maxRedirects: 10,
+        _request: mockSequenceHttpRequestFactory([
+          [302, '', { location: '/b' }],
+          [302, '', { location: '/a' }],
+        ]),
+      })
+    );
+    expect(isHttpRequestError(err)).toBe(true);
+    expect(err).toMatchObject({
+      code: 'ERR_REDIRECT_LOOP',
+      message: 'Redirect loop detected at https://example.com/a',
+    });
+
+    const cookieLoop = await httpRequest({
+      url: 'https://example.com/a',
+      _request: mockSequenceHttpRequestFactory([
+        [302, '', { location: '/a', 'set-cookie': ['visited=1'] }],
+        [200, 'ok'],
+      ]),
+    });
+    expect(cookieLoop.data).toBe('ok');
+  });
+
+  it('should buffer or reject stream bodies when 307 requires resending them', async () => {
+    const makeStreamRequest = (bufferStreamBody: boolean, received: string[]) => {
+      let index = 0;
+      return httpRequest({
+        url: 'https://example.com/upload',
+        method: 'POST',
+        dataType: 'stream',
+        data: createReadableStream('streamed body'),
+        bufferStreamBody,
+        _request: mockHandlerHttpRequestFactory(({ body }) => {
+          received.push(body.toString());
+          return index++ === 0 ? [307, '', { location: '/retry-upload' }] : [200, ''];
+        }),
+      });
+    };
+    const rejectedBodies: string[] = [];
+    const err = await captureError(() => makeStreamRequest(false, rejectedBodies));
+    expect(err).toMatchObject({ code: 'ERR_STREAM_BODY_NOT_REPLAYABLE' });
+    expect(rejectedBodies).toEqual(['streamed body']);
+    const bufferedBodies: string[] = [];
+    const response = await makeStreamRequest(true, bufferedBodies);
+    expect(response.status).toBe(200);
+    expect(bufferedBodies).toEqual(['streamed body', 'streamed body']);
+  });
+
+  it('should strip sensitive headers on cross-origin redirects unless the origin is trusted', async () => {
+    const makeRedirectingRequest = (locations: string[], sentHeaders: HttpHeaders[]): MakeHttpRequest => {
+      let index = 0;
+      return mockHandlerHttpRequestFactory(({ headers }) => {
+        sentHeaders.push(headers);
+        const location = locations[index++];
+        return location ? [302, '', { location }] : [200, ''];
+      });
+    };
+    const headers = { Authorization: 'Bearer token', 'X-Api-Key': 'key', 'X-Other': 'other' };
+    const locations = ['/same-origin', 'https://other.com/', 'https://example.com/back'];
+    const sentHeaders: HttpHeaders[] = [];
+    await httpRequest({
+      url: 'https://example.com/',
+      headers,
+      sensitiveHeaders: ['x-api-key'],
+      _request: makeRedirectingRequest(locations, sentHeaders),
+    });
+    expect(sentHeaders.map((sent) => [sent.Authorization, sent['X-Api-Key'], sent['X-Other']])).toEqual([
+      ['Bearer token', 'key', 'other'],
+      ['Bearer token', 'key', 'other'],
+      [undefined, undefined, 'other'],
+      [undefined, undefined, 'other'],
+    ]);
+
+    const downgradeHeaders: HttpHeaders[] = [];
+    await httpRequest({
+      url: 'https://example.com/',
+      headers,
+      _request: makeRedirectingRequest(['http://example.com/'], downgradeHeaders),
+    });
+    expect(downgradeHeaders[1].Authorization).toBeUndefined();
+
+    const trustedHeaders: HttpHeaders[] = [];
+    await httpRequest({
+      url: 'https://example.com/',
+      headers,
+      trustedOrigins: ['https://other.com/'],
+      _request: makeRedirectingRequest(['https://other.com/', 'https://untrusted.com/'], trustedHeaders),
+    });
+    expect(trustedHeaders.map((sent) => sent.Authorization)).toEqual(['Bearer token', 'Bearer token', undefined]);
+  });
+
+  it('should add query parameters and redact secrets in them', async () => {
+    const urls: string[] = [];
+    const query = { q: 'a b&c', list: ['x', 'y,z'], flag: true, page: 2, empty: null, skipped: undefined };
+    const _request = mockSequenceHttpRequestFactory([[200, 'ok']], urls);
+    await httpRequest({ url: 'https://example.com/search?existing=1', query, _request });
+    await httpRequest({ url: 'https://example.com/search', query, queryArrayFormat: 'brackets', _request });
+    await httpRequest({ url: new URL('https://example.com/search'), query, queryArrayFormat: 'comma', _request });
+    expect(urls).toEqual([
+      'https://example.com/search?existing=1&q=a%20b%26c&list=x&list=y%2Cz&flag=true&page=2',
+      'https://example.com/search?q=a%20b%26c&list[]=x&list[]=y%2Cz&flag=true&page=2',
+      'https://example.com/search?q=a%20b%26c&list=x,y%2Cz&flag=true&page=2',
+    ]);
+
+    const messages: string[] = [];
+    const log = (...args: string[]) => messages.push(args.join('\n'));
+    const logger = { debug: log, warn: log, info: log, error: log };
+    const har = new HarRecorder();
+    const response = await httpRequest({
+      url: 'https://example.com/api',
+      query: { token: 's3cr3t value' },
+      hideSecrets: ['s3cr3t value'],
+      logger,
+      har,
+      _request: mockSequenceHttpRequestFactory([[200, 'ok']]),
+    });
+    expect(response.url.toString()).toBe('https://example.com/api?token=s3cr3t%20value');
+    expect(messages.join('\n')).toContain('https://example.com/api?token=[SECRET]');
+    expect(messages.join('\n')).not.toContain('s3cr3t');
+    expect(JSON.stringify(har.getHar())).not.toContain('s3cr3t');
+  });
+
+  it('throws typed errors with the request and response attached', async () => {
+    const _request = mockCustomResponseHttpRequestFactory({
+      'https://example.com/500': () => ['data', 500, 'bad'],
+      'https://example.com/json': () => ['data', 200, '{"broken'],
+      'https://example.com/valid': () => ['data', 200, '{"ok":false}'],
+      'https://example.com/loop': () => ['redirect', 302, 'https://example.com/loop?again'],
+      'https://example.com/loop?again': () => ['redirect', 302, 'https://example.com/loop'],
+    });
+    const statusError = await captureError(() =>
+      httpRequest({ url: 'https://example.com/500', validateStatus: 200, _request })
+    );
+    expect(statusError).toBeInstanceOf(HttpStatusError);
+    expect(statusError).toBeInstanceOf(HttpRequestError);
+    expect(statusError).toBeInstanceOf(Error);
+    expect(statusError).toMatchObject({ name: 'HttpStatusError', code: 'ERR_HTTP_STATUS', status: 500 });
+    expect(isHttpRequestError(statusError)).toBe(true);
+    expect((statusError as HttpStatusError).request.url).toBe('https://example.com/500');
+
+    const jsonError = await captureError(() =>
+      httpRequest({ url: 'https://example.com/json', responseType: 'json', _request })
+    );
+    expect(jsonError).toBeInstanceOf(InvalidJsonError);
+    expect(jsonError).toMatchObject({ code: 'ERR_INVALID_JSON', response: { status: 200 } });
+    expect((jsonError as InvalidJsonError).cause).toBeInstanceOf(SyntaxError);
+
+    const validationError = await captureError(() =>
+      httpRequest({
+        url: 'https://example.com/valid',
+        responseType: 'json',
+        validateJson: (data: any) => data.ok,
+        _request,
+      })
+    );
+    expect(validationError).toBeInstanceOf(ResponseValidationError);
+    expect(validationError).toMatchObject({ code: 'ERR_RESPONSE_VALIDATION' });
+
+    const redirectError = await captureError(() =>
+      httpRequest({ url: 'https://example.com/loop', maxRedirects: 1, _request })
+    );
+    expect(redirectError).toBeInstanceOf(TooManyRedirectsError);
+    expect(redirectError).toMatchObject({ code: 'ERR_TOO_MANY_REDIRECTS', response: { redirectCount: 1 } });
+
+    const invalidUrlError = await captureError(() => httpRequest({ url: 'not a url', _request }));
+    expect(invalidUrlError).toBeInstanceOf(InvalidUrlError);
+    expect(isHttpRequestError(invalidUrlError)).toBe(true);
+
+    const secretUrlError = await captureError(() =>
+      httpRequest({
+        url: 'not a url',
+        method: 'POST',
+        headers: { Authorization: 'Bearer t0ken', 'X-Api-Key': 'k3y' },
+        data: { password: 'hunter2' },
+        dataType: 'form',
+        hideSecrets: ['k3y', 'hunter2'],
+        _request,
+      })
+    );
+    expect(secretUrlError).toBeInstanceOf(InvalidUrlError);
+    const serialized = JSON.stringify({ ...(secretUrlError as InvalidUrlError) });
+    expect(serialized).not.toMatch(/t0ken|k3y|hunter2/);
+  });
+
+  it('wraps transport errors and socket timeouts', async () => {
+    const networkError = await captureError(() =>
+      httpRequest({
+        url: 'https://example.com',
+        _request: mockSequenceHttpRequestFactory([makeErrorWithCode('ECONNREFUSED')]),
+      })
+    );
+    expect(networkError).toBeInstanceOf(NetworkError);
+    expect(networkError).toMatchObject({ code: 'ECONNREFUSED', message: 'ECONNREFUSED' });
+    expect(isHttpRequestError(networkError)).toBe(true);
+
+    const _request: MakeHttpRequest = () => {
+      const requestStream: Writable = new Writable({
+        autoDestroy: false,
+        write(_chunk, _enc, cb) {
+          cb();
+        },
+      });
+      requestStream.on('finish', () => setTimeout(() => requestStream.emit('timeout'), 1));
+      return requestStream;
+    };
+    const timeoutError = await captureError(() => httpRequest({ url: 'https://example.com', timeout: 50, _request }));
+    expect(timeoutError).toBeInstanceOf(HttpTimeoutError);
+    expect(timeoutError).toMatchObject({
+      code: 'ERR_TIMEOUT_IDLE',
+      phase: 'idle',
+      timeout: 50,
+      message: 'Socket idle timeout of 50ms exceeded',
+    });
+    expect(isHttpRequestError(timeoutError)).toBe(true);
+  });
+
+  it('aborts requests when the connect, response or total timeout expires', async () => {
+    const destroyed: unknown[] = [];
+    const makeStalledRequest = (onFinish: (stream: Writable, cb: (res: any) => any) => void): MakeHttpRequest => {
+      return (_url, _options, cb) => {
+        const requestStream: Writable = new Writable({
+          autoDestroy: false,
+          write(_chunk, _enc, done) {
+            done();
+          },
+          destroy(err, done) {
+            destroyed.push(err);
+            done(err);
+          },
+        });
+        requestStream.on('finish', () => onFinish(requestStream, cb));
+        return requestStream;
+      };
+    };
+    const connecting = makeStalledRequest((requestStream) =>
+      requestStream.emit('socket', Object.assign(new EventEmitter(), { connecting: true }))
+    );
+    const connectError = await captureError(() =>
+      httpRequest({ url: 'https://example.com', connectTimeout: 20, responseTimeout: 1000, _request: connecting })
+    );
+    expect(connectError).toBeInstanceOf(HttpTimeoutError);
+    expect(connectError).toMatchObject({ phase: 'connect', message: 'Connect timeout of 20ms exceeded' });
+    expect(destroyed[0]).toBe(connectError);
+
+    const responseError = await captureError(() =>
+      httpRequest({
+        url: 'https://example.com',
+        responseTimeout: 20,
+        _request: makeStalledRequest(() => undefined),
+      })
+    );
+    expect(responseError).toMatchObject({
+      phase: 'response',
+      code: 'ERR_TIMEOUT_RESPONSE',
+      request: { method: 'GET' },
+    });
+
+    let stalledAttempts = 0;
+    const retriedError = await captureError(() =>
+      httpRequest({
+        url: 'https://example.com',
+        responseTimeout: 20,
+        retry: { maxAttempts: 2, baseDelayMs: 1 },
+        _request: makeStalledRequest(() => stalledAttempts++),
+      })
+    );
+    expect(retriedError).toMatchObject({ phase: 'response', response: { attempts: 2 } });
+    expect(stalledAttempts).toBe(2);
+    stalledAttempts = 0;
+    await captureError(() =>
+      httpRequest({
+        url: 'https://example.com',
+        responseTimeout: 20,
+        retry: { maxAttempts: 2, baseDelayMs: 1, retryOnTimeouts: ['connect'] },
+        _request: makeStalledRequest(() => stalledAttempts++),
+      })
+    );
+    expect(stalledAttempts).toBe(1);
+
+    const calls: string[] = [];
+    const totalError = await captureError(() =>
+      httpRequest({
+        url: 'https://example.com',
+        totalTimeout: 50,
+        retry: { maxAttempts: 5, baseDelayMs: 30 },
+        _request: mockSequenceHttpRequestFactory([makeErrorWithCode('ECONNRESET')], calls),
+      })
+    );
+    expect(totalError).toMatchObject({ phase: 'total', message: 'Total timeout of 50ms exceeded' });
+    expect(calls.length).toBeLessThan(5);
+
+    const trickling = makeStalledRequest((_requestStream, cb) => {
+      const responseStream = Object.assign(new Readable({ read: () => undefined }), {
+        statusCode: 200,
+        statusMessage: '',
+        headers: {},
+      });
+      responseStream.push('first chunk');
+      cb(responseStream);
+    });
+    const bodyError = await captureError(() =>
+      httpRequest({ url: 'https://example.com', totalTimeout: 30, responseTimeout: 20, _request: trickling })
+    );
+    expect(bodyError).toMatchObject({ phase: 'total', response: { status: 0 } });
+    const response = await httpRequest({
+      url: 'https://example.com',
+      responseType: 'stream',
+      totalTimeout: 30,
+      _request: trickling,
+    });
+    await expect(collectStreamToString(response.data)).rejects.toMatchObject({ phase: 'total' });
+  });
+
+  it('sends Basic and Bearer authorization and hides it from logs', async () => {
+    const logs: string[] = [];
+    const log = (message: string, details = '') => logs.push(message + details);
+    const logger = { debug: log, warn: log, info: log, error: log };
+    const sentHeaders: HttpHeaders[] = [];
+    const _request = mockHeadersHttpRequestFactory((headers) => {
+      sentHeaders.push({ ...headers });
+      return {};
+    });
+    await httpRequest({
+      url: 'https://example.com',
+      headers: { authorization: 'replaced' },
+      auth: { type: 'basic', username: 'user', password: 'hunter2' },
+      logger,
+      _request,
+    });
+    const tokens = ['static-token', 'callback-token'];
+    await httpRequest({ url: 'https://example.com', auth: { type: 'bearer', token: tokens[0] }, logger, _request });
+    const error = await captureError(() =>
+      httpRequest({
+        url: 'https://example.com',
+        auth: { type: 'bearer', token: async () => tokens[1] },
+        validateStatus: () => false,
+        logger,
+        _request,
+      })
+    );
+    expect(sentHeaders.map((headers) => headers.Authorization)).toEqual([
+      `Basic ${Buffer.from('user:hunter2').toString('base64')}`,
+      'Bearer static-token',
+      'Bearer callback-token',
+    ]);
+    expect(sentHeaders[0].authorization).toBeUndefined();
+    expect(error).toMatchObject({ request: { headers: { Authorization: '[SECRET]' } } });
+    expect(logs.join('\n')).not.toMatch(/dXNlcjpodW50ZXIy|static-token|callback-token/);
+  });
+
+  it('answers Digest challenges and authorizes upfront once the nonce is known', async () => {
+    const auth = { type: 'digest' as const, username: 'user', password: 'hunter2' };
+    const sentHeaders: HttpHeaders[] = [];
+    const _request = mockDigestHttpRequestFactory(sentHeaders);
+    const response = await httpRequest({ url: 'https://example.com/dir/index.html?a=1', auth, _request });
+    expect(response).toMatchObject({ status: 200, data: 'ok' });
+    expect(sentHeaders[0].Authorization).toBeUndefined();
+    expect(sentHeaders[1].Authorization).toMatch(
+      /^Digest username="user", realm="test@example.com", nonce="abc123", uri="\/dir\/index.html\?a=1", algorithm=MD5, response="[\da-f]{32}", qop=auth, nc=00000001, cnonce="[\da-f]+", opaque="xyz"$/
+    );
+    await httpRequest({ url: 'https://example.com/other', method: 'POST', auth, _request });
+    expect(sentHeaders).toHaveLength(3);
+    expect(sentHeaders[2].Authorization).toMatch(/nc=00000002/);
+
+    const wrongPassword = await httpRequest({
+      url: 'https://example.com/',
+      auth: { ...auth, password: 'wrong' },
+      validateStatus: false,
+      _request: mockDigestHttpRequestFactory([]),
+    });
+    expect(wrongPassword.status).toBe(401);
+    const basic = await httpRequest({
+      url: 'https://example.com/',
+      auth: { type: 'basic', username: 'user', password: 'hunter2' },
+      validateStatus: false,
+      _request: mockDigestHttpRequestFactory([]),
+    });
+    expect(basic.status).toBe(401);
+  });
+
+  it('redacts headers, cookies, query parameters, JSON paths and patterns in logs, errors and HAR entries', async () => {
+    const logs: string[] = [];
+    const log = (message: string, details = '') => logs.push(message + details);
+    const logger = { debug: log, warn: log, info: log, error: log };
+    const har = new HarRecorder({ includeBodies: true });
+    const secrets = [
+      'bearer-secret',
+      'session-header-secret',
+      'key-secret',
+      'cookie-secret',
+      'new-cookie-secret',
+      'password-secret',
+      '4111-1111-1111-1111',
+      'item-secret',
+      'access-token-secret',
+    ];
+    const body = { items: [{ id: 1, token: 'item-secret' }], access_token: 'access-token-secret', user: 'bob' };
+    const _request = mockHandlerHttpRequestFactory(() => [
+      200,
+      JSON.stringify(body),
+      { 'content-type': 'application/json', 'set-cookie': ['SESSIONID=new-cookie-secret; Path=/'] },
+    ]);
+    const error = await captureError(() =>
+      httpRequest({
+        url: 'https://example.com/api?api_key=key-secret&page=2',
+        method: 'POST',
+        headers: { Authorization: 'Bearer bearer-secret', 'X-Session': 'session-header-secret' },
+        cookies: [makeCookie({ key: 'SESSIONID', value: 'cookie-secret', domain: 'example.com' })],
+        dataType: 'json',
+        data: { user: { name: 'bob', password: 'password-secret' }, note: 'card 4111-1111-1111-1111' },
+        responseType: 'json',
+        validateJson: () => false,
+        redact: {
+          headers: ['x-session'],
+          cookies: ['sessionid'],
+          jsonPaths: ['user.password', '$.items[*].token'],
+          patterns: [/\d{4}-\d{4}-\d{4}-\d{4}/],
+        },
+        logger,
+        har,
+        _request,
+      })
+    );
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    const err = error as HttpRequestError;
+    const outputs = {
+      logs: logs.join('\n'),
+      error: JSON.stringify({ request: err.request, response: err.response }),
+      har: JSON.stringify(har.getHar()),
+    };
+    for (const output of Object.values(outputs)) {
+      for (const secret of secrets) expect(output).not.toContain(secret);
+      expect(output).toContain('[SECRET]');
+    }
+    expect(err.request).toMatchObject({
+      url: 'https://example.com/api?api_key=[SECRET]&page=2',
+      headers: { Authorization: '[SECRET]', 'X-Session': '[SECRET]' },
+      cookies: { SESSIONID: '[SECRET]' },
+    });
+    expect(JSON.parse(err.request.formattedData)).toEqual({
+      user: { name: 'bob', password: '[SECRET]' },
+      note: 'card [SECRET]',
+    });
+    expect(err.response.data).toEqual({
+      items: [{ id: 1, token: '[SECRET]' }],
+      access_token: '[SECRET]',
+      user: 'bob',
+    });
+  });
+
+  it('logs structured events and skips formatting below the minimum level', async () => {
+    const events: [string, string | undefined, any][] = [];
+    const log = (message: string, details?: string, event?: any) => events.push([message, details, event]);
+    const logger = { debug: log, info: log, warn: log, error: log };
+    const _request = mockCustomResponseHttpRequestFactory({
+      'https://example.com/start?token=abc': () => ['redirect', 302, '/end'],
+      'https://example.com/end': () => ['data', 200, 'done'],
+    });
+    await httpRequest({ url: 'https://example.com/start?token=abc', hideSecrets: ['abc'], logger, _request });
+    expect(events.map(([, , event]) => event)).toEqual([
+      { event: 'request', method: 'GET', url: 'https://example.com/start?token=[SECRET]' },
+      {
+        event: 'redirect',
+        method: 'GET',
+        url: 'https://example.com/start?token=[SECRET]',
+        location: 'https://example.com/end',
+        status: 302,
+      },
+      {
+        event: 'response',
+        method: 'GET',
+        url: 'https://example.com/end',
+        status: 200,
+        durationMs: expect.any(Number),
+        attempts: 2,
+        redirectCount: 1,
+        cacheStatus: null,
+      },
+    ]);
+    expect(events[0][1]).toContain('"method": "GET"');
+
+    const toJSON = jest.fn(() => ({}));
+    events.length = 0;
+    await httpRequest({
+      url: 'https://example.com/end',
+      method: 'POST',
+      dataType: 'json',
+      data: { toJSON },
+      logger: { ...logger, level: 'info' },
+      _request,
+    });
+    expect(events).toEqual([]);
+    expect(toJSON).toHaveBeenCalledTimes(1);
+  });
+
+  it('parses ndjson responses line by line as they are consumed', async () => {
+    const response = await httpRequest({
+      url: 'https://example.com/',
+      responseType: 'ndjson',
+      _request: mockEventStreamHttpRequestFactory(() => [200, ['{"a":1}\n{"a"', ':2}\r\n\n{"a":3}']]),
+    });
+    const items: unknown[] = [];
+    for await (const item of response.data) items.push(item);
+    expect(items).toEqual([{ a: 1 }, { a: 2 }, { a: 3 }]);
+
+    let reads = 0;
+    const endless = new Readable({
+      highWaterMark: 64,
+      read() {
+        reads++;
+        this.push(`{"n":${reads}}\n`);
+      },
+    });
+    const lazy = await httpRequest<'raw', 'ndjson', { n: number }>({
+      url: 'https://example.com/',
+      responseType: 'ndjson',
+      _request: mockEventStreamHttpRequestFactory(() => [200, endless]),
+    });
+    for await (const item of lazy.data) {
+      if (item.n === 2) break;
+    }
+    expect(reads).toBeLessThan(20);
+    expect(endless.destroyed).toBe(true);
+
+    const invalid = await httpRequest({
+      url: 'https://example.com/?token=abc',
+      responseType: 'ndjson',
+      hideSecrets: ['abc'],
+      _request: mockEventStreamHttpRequestFactory(() => [200, '{"a":1}\nnot json\n']),
+    });
+    const error = await (async () => {
+      for await (const _item of invalid.data);
+    })().catch((err) => err);
+    expect(error).toBeInstanceOf(InvalidJsonError);
+    expect(error.request.url).toBe('https://example.com/?token=[SECRET]');
+    expect(error.response.data).toBe('[STREAM]');
+  });
+
+  it('parses server-sent events and reconnects with Last-Event-ID', async () => {
+    const sentHeaders: HttpHeaders[] = [];
+    const _request = mockEventStreamHttpRequestFactory((headers, connection) => {
+      sentHeaders.push({ ...headers });
+      if (connection === 0) {
+        return [
+          200,
+          [
+            ': comment\nevent: update\nid: 1\ndata: first\ndata:  line\n\n',
+            'retry: 10\ndata: second\n\ndata: incomplete',
+          ],
+          { 'set-cookie': ['session=abc'] },
+        ];
+      }
+      return connection === 1 ? [200, 'data: third\n\n'] : [204, ''];
+    });
+    const response = await httpRequest({
+      url: 'https://example.com/events',
+      responseType: 'sse',
+      reconnect: { retryMs: 1000 },
+      _request,
+    });
+    const events: unknown[] = [];
+    for await (const event of response.data) events.push(event);
+    expect(events).toEqual([
+      { event: 'update', data: 'first\n line', id: '1', retry: null },
+      { event: 'message', data: 'second', id: '1', retry: 10 },
+      { event: 'message', data: 'third', id: '1', retry: null },
+    ]);
+    expect(sentHeaders.map((headers) => headers['Last-Event-ID'])).toEqual([undefined, '1', '1']);
+    expect(sentHeaders[1].Cookie).toEqual(['session=abc']);
+
+    const once = await httpRequest({
+      url: 'https://example.com/events',
+      responseType: 'sse',
+      _request: mockEventStreamHttpRequestFactory(() => [200, 'data: only\n\n']),
+    });
+    const onceEvents: unknown[] = [];
+    for await (const event of once.data) onceEvents.push(event);
+    expect(onceEvents).toHaveLength(1);
+
+    const failing = await httpRequest({
+      url: 'https://example.com/events',
+      responseType: 'sse',
+      reconnect: { retryMs: 1 },
+      _request: mockEventStreamHttpRequestFactory((_headers, connection) =>
+        connection === 0 ? [200, 'data: a\n\n'] : [500, '']
+      ),
+    });
+    const failed = await (async () => {
+      for await (const _event of failing.data);
+    })().catch((err) => err);
+    expect(failed).toBeInstanceOf(HttpStatusError);
+
+    let tokens = 0;
+    const authorizations: unknown[] = [];
+    const refreshed = await httpRequest({
+      url: 'https://example.com/events',
+      responseType: 'sse',
+      reconnect: { retryMs: 1 },
+      middleware: [({ options }, next) => next({ ...options, auth: { type: 'bearer', token: `token-${++tokens}` } })],
+      _request: mockEventStreamHttpRequestFactory((headers, connection) => {
+        authorizations.push(headers.Authorization);
+        return connection === 0 ? [200, 'data: a\n\n'] : [204, ''];
+      }),
+    });
+    for await (const _event of refreshed.data);
+    expect(authorizations).toEqual(['Bearer token-1', 'Bearer token-2']);
+  });
+
+  it('stops streaming responses when aborted', async () => {
+    const controller = new AbortController();
+    const open = new Readable({ read: () => undefined });
+    open.push('data: a\n\n');
+    const response = await httpRequest({
+      url: 'https://example.com/events',
+      responseType: 'sse',
+      reconnect: true,
+      abortSignal: controller.signal,
+      _request: mockEventStreamHttpRequestFactory(() => [200, open]),
+    });
+    const events: unknown[] = [];
+    const error = await (async () => {
+      for await (const event of response.data) {
+        events.push(event);
+        setTimeout(() => controller.abort(), 5);
+      }
+    })().catch((err) => err);
+    expect(events).toHaveLength(1);
+    expect(error).toBeInstanceOf(AbortError);
+    expect(error).toMatchObject({ message: 'The operation was aborted' });
+    expect(open.destroyed).toBe(true);
+  });
 });
@@ -1,5 +1,10 @@
 import { HttpSession, HttpSessionOptions } from '../src';
 import { Readable, Writable } from 'node:stream';
+import {
+  mockHandlerHttpRequestFactory,
+  mockHttpRequestFactory,
+  mockSequenceHttpRequestFactory,
+} from '../src/lib/mockHttpRequest';
 
 const mockHttpRequest = function (_url, options, callback) {
   const requestStream = new Writable({
@@ -541,6 +546,163 @@ describe('HttpSession', () => {
     await testSession.shutdown();
     expect(loginCount).toBe(2);
   });
+  it('uses session retry options unless overridden per request', async () => {
+    const flakyHttpRequest = mockSequenceHttpRequestFactory([
+      [503, ''],
+      [200, ''],
+      [503, ''],
+    ]);
+    const testSession = new HttpSession({
+      retry: { maxAttempts: 2, baseDelayMs: 1 },
+      _makeHttpsRequest: flakyHttpRequest,
+    });
+    const session = await testSession.requestSession();
+    const response = await session.request({ url: 'https://example.com' });
+    expect(response.status).toBe(200);
+    expect(response.attempts).toBe(2);
+    const noRetryResponse = await session.request({ url: 'https://example.com', retry: false });
+    expect(noRetryResponse.status).toBe(503);
+    expect(noRetryResponse.attempts).toBe(1);
+    await testSession.shutdown();
+  });
+  it('runs session middleware before request middleware', async () => {
+    const order: string[] = [];
+    const testSession = new HttpSession({
+      ...testSessionOptions,
+      middleware: [
+        async (_ctx, next) => {
+          order.push('session');
+          return next();
+        },
+      ],
+    });
+    testSession.use(async (_ctx, next) => {
+      order.push('use');
+      return next();
+    });
+    const session = await testSession.requestSession();
+    await session.request({
+      url: 'https://example.com',
+      middleware: [
+        async (_ctx, next) => {
+          order.push('request');
+          return next();
+        },
+      ],
+    });
+    await testSession.shutdown();
+    expect(order).toEqual(['session', 'use', 'request']);
+  });
+  it('applies session response size limits unless overridden per request', async () => {
+    const largeHttpRequest = mockHttpRequestFactory({ returns: 'x'.repeat(1000), statusCode: 200 });
+    const testSession = new HttpSession({ maxResponseBytes: 500, _makeHttpsRequest: largeHttpRequest });
+    const session = await testSession.requestSession();
+    await expect(session.request({ url: 'https://example.com' })).rejects.toMatchObject({
+      code: 'ERR_RESPONSE_TOO_LARGE',
+    });
+    const response = await session.request({ url: 'https://example.com', maxResponseBytes: 1000 });
+    expect(response.data).toHaveLength(1000);
+    await testSession.shutdown();
+  });
+  it('applies session timeouts unless overridden per request', async () => {
+    const slowHttpRequest = mockHttpRequestFactory({ returns: 'ok', statusCode: 200, delay: 50 });
+    const testSession = new HttpSession({ responseTimeout: 10, _makeHttpsRequest: slowHttpRequest });
+    const session = await testSession.requestSession();
+    await expect(session.request({ url: 'https://example.com' })).rejects.toMatchObject({
+      code: 'ERR_TIMEOUT_RESPONSE',
+      phase: 'response',
+    });
+    const response = await session.request({ url: 'https://example.com', responseTimeout: 1000 });
+    expect(response.data).toBe('ok');
+    await testSession.shutdown();
+  });
+  it('applies the session validateStatus unless overridden per request', async () => {
+    const notFoundHttpRequest = mockHttpRequestFactory({ returns: '', statusCode: 404 });
+    const testSession = new HttpSession({ validateStatus: '2xx', _makeHttpsRequest: notFoundHttpRequest });
+    const session = await testSession.requestSession();
+    await expect(session.request({ url: 'https://example.com' })).rejects.toMatchObject({
+      code: 'ERR_HTTP_STATUS',
+      status: 404,
+    });
+    const response = await session.request({ url: 'https://example.com', validateStatus: [200, 404] });
+    expect(response.status).toBe(404);
+    const unvalidated = await session.request({ url: 'https://example.com', validateStatus: false });
+    expect(unvalidated.status).toBe(404);
+    await testSession.shutdown();
+  });
+
+  it('uses the session auth for all requests unless overridden per request', async () => {
+    const sentHeaders: any[] = [];
+    const authHttpRequest = mockHandlerHttpRequestFactory(({ headers }) => {
+      sentHeaders.push(headers);
+      return typeof headers.Authorization === 'string'
+        ? [200, '']
+        : [401, '', { 'www-authenticate': 'Digest realm="test", nonce="n1", qop="auth"' }];
+    });
+    const testSession = new HttpSession({
+      auth: { type: 'digest', username: 'user', password: 'pass' },
+      _makeHttpsRequest: authHttpRequest,
+    });
+    const session = await testSession.requestSession();
+    await session.request({ url: 'https://example.com/a' });
+    await session.request({ url: 'https://example.com/b' });
+    await session.request({ url: 'https://example.com/c', auth: { type: 'bearer', token: 'token' } });
+    await session.request({ url: 'https://example.com/d', auth: false, validateStatus: false });
+    await testSession.shutdown();
+    expect(sentHeaders.map((headers) => headers.Authorization)).toEqual([
+      undefined,
+      expect.stringMatching(/^Digest .*uri="\/a".*nc=00000001/),
+      expect.stringMatching(/^Digest .*uri="\/b".*nc=00000002/),
+      'Bearer token',
+      undefined,
+    ]);
+  });
+
+  it('combines the session redaction policy with the one passed per request', async () => {
+    const testSession = new HttpSession({
+      redact: { headers: ['x-session-key'] },
+      validateStatus: 200,
+      _makeHttpsRequest: mockHttpRequestFactory({ returns: '', statusCode: 500 }),
+    });
+    const session = await testSession.requestSession();
+    const headers = { 'X-Session-Key': 'one', 'X-Request-Key': 'two', Authorization: 'three', 'X-Other': 'four' };
+    await expect(
+      session.request({ url: 'https://example.com', headers, redact: { headers: ['x-request-key'] } })
+    ).rejects.toMatchObject({
+      request: {
+        headers: {
+          'X-Session-Key': '[SECRET]',
+          'X-Request-Key': '[SECRET]',
+          Authorization: '[SECRET]',
+          'X-Other': 'four',
+        },
+      },
+    });
+    await expect(session.request({ url: 'https://example.com', headers })).rejects.toMatchObject({
+      request: { headers: { 'X-Session-Key': '[SECRET]', 'X-Request-Key': 'two' } },
+    });
+    await testSession.shutdown();
+  });
+
+  it('logs through child loggers carrying the session name and request id', async () => {
+    const events: any[] = [];
+    const log = (_message: string, _details?: string, event?: any) => events.push(event);
+    const testSession = new HttpSession({
+      name: 'api',
+      allowMultipleRequests: true,
+      logger: { debug: log, info: log, warn: log, error: log },
+      _makeHttpsRequest: mockHttpRequest,
+    });
+    const first = await testSession.requestSession({ ref: Symbol('first') });
+    const second = await testSession.requestSession();
+    await first.request({ url: 'https://example.com' });
+    await second.request({ url: 'https://example.com' });
+    await testSession.shutdown();
+    expect(events.filter((event) => event.event === 'response')).toEqual([
+      expect.objectContaining({ sessionName: 'api', requestId: 1, ref: 'first', status: 200 }),
+      expect.objectContaining({ sessionName: 'api', requestId: 2, ref: 'request-session', status: 200 }),
+    ]);
+  });
 });
 
 /*
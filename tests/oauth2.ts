@@ -0,0 +1,170 @@
+import type { MakeHttpRequest } from '../src/types/http-request';
+import { HttpSession, OAuth2Error, OAuth2TokenManager } from '../src';
+import { mockHandlerHttpRequestFactory } from '../src/lib/mockHttpRequest';
+
+const TOKEN_URL = 'https://auth.example.com/token';
+
+interface TokenServer {
+  expiresIn: number;
+  issued: string[];
+  revoked: string[];
+  tokenRequests: { authorization?: string; params: Record<string, string> }[];
+  apiAuthorizations: string[];
+}
+
+function makeTokenServer(expiresIn = 3600): TokenServer {
+  return { expiresIn, issued: [], revoked: [], tokenRequests: [], apiAuthorizations: [] };
+}
+
+function handleTokenRequest(server: TokenServer, authorization: string | undefined, body: string): [number, object] {
+  const params = Object.fromEntries(new URLSearchParams(body));
+  server.tokenRequests.push({ authorization, params });
+  const invalidPassword = params.grant_type === 'password' && params.password !== 'hunter2';
+  const invalidRefreshToken = params.grant_type === 'refresh_token' && server.revoked.includes(params.refresh_token);
+  if (invalidPassword || invalidRefreshToken) {
+    return [400, { error: 'invalid_grant', error_description: 'Bad credentials' }];
+  }
+  const index = server.issued.length / 2 + 1;
+  server.issued.push(`access-${index}`, `refresh-${index}`);
+  return [
+    200,
+    {
+      access_token: `access-${index}`,
+      token_type: 'bearer',
+      refresh_token: `refresh-${index}`,
+      expires_in: server.expiresIn,
+    },
+  ];
+}
+
+function mockOAuth2HttpRequestFactory(server: TokenServer): MakeHttpRequest {
+  return mockHandlerHttpRequestFactory(({ url, headers, body }) => {
+    const authorization = typeof headers.Authorization === 'string' ? headers.Authorization : undefined;
+    let status = 401;
+    let data: object = { error: 'invalid_token' };
+    if (url.toString() === TOKEN_URL) {
+      [status, data] = handleTokenRequest(server, authorization, body.toString());
+    } else {
+      const token = (authorization || '').replace(/^Bearer /, '');
+      server.apiAuthorizations.push(authorization || '');
+      if (server.issued.includes(token) && !server.revoked.includes(token)) [status, data] = [200, { token }];
+    }
+    return [status, JSON.stringify(data), { 'content-type': 'application/json' }];
+  });
+}
+
+function waitFor(n: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, n));
+}
+
+describe('OAuth2TokenManager', () => {
+  it('logs in with client credentials and sends the access token with session requests', async () => {
+    const server = makeTokenServer();
+    const oauth2 = new OAuth2TokenManager(TOKEN_URL, 'client', { clientSecret: 's3cret', scope: ['read', 'write'] });
+    const testSession = new HttpSession({
+      login: oauth2.login,
+      logout: oauth2.logout,
+      middleware: [oauth2.middleware],
+      _makeHttpsRequest: mockOAuth2HttpRequestFactory(server),
+    });
+    const session = await testSession.requestSession();
+    const response = await session.request({ url: 'https://api.example.com/', responseType: 'json' });
+    expect(response.data).toEqual({ token: 'access-1' });
+    expect(server.tokenRequests).toEqual([
+      {
+        authorization: `Basic ${Buffer.from('client:s3cret').toString('base64')}`,
+        params: { grant_type: 'client_credentials', scope: 'read write' },
+      },
+    ]);
+    expect(session.getState()).toMatchObject({
+      oauth2: { accessToken: 'access-1', refreshToken: 'refresh-1', tokenType: 'bearer' },
+    });
+    const ownAuth = await session.request({
+      url: 'https://api.example.com/',
+      auth: { type: 'bearer', token: 'other' },
+      validateStatus: false,
+    });
+    expect(ownAuth.status).toBe(401);
+    expect(server.apiAuthorizations).toEqual(['Bearer access-1', 'Bearer other']);
+    await session.release();
+    await testSession.shutdown();
+    expect(oauth2.getToken()).toBeNull();
+  });
+
+  it('refreshes tokens before they expire and retries once on 401', async () => {
+    const server = makeTokenServer(1);
+    const oauth2 = new OAuth2TokenManager(TOKEN_URL, 'client', {
+      clientSecret: 's3cret',
+      clientAuthentication: 'body',
+      refreshBeforeExpiryMs: 950,
+    });
+    const testSession = new HttpSession({
+      login: oauth2.login,
+      middleware: [oauth2.middleware],
+      allowMultipleRequests: true,
+      _makeHttpsRequest: mockOAuth2HttpRequestFactory(server),
+    });
+    const session = await testSession.requestSession();
+    await session.request({ url: 'https://api.example.com/' });
+    await waitFor(100);
+    await Promise.all([
+      session.request({ url: 'https://api.example.com/' }),
+      session.request({ url: 'https://api.example.com/' }),
+    ]);
+    expect(server.tokenRequests.map(({ params }) => params)).toEqual([
+      { grant_type: 'client_credentials', client_id: 'client', client_secret: 's3cret' },
+      { grant_type: 'refresh_token', refresh_token: 'refresh-1', client_id: 'client', client_secret: 's3cret' },
+    ]);
+    expect(server.apiAuthorizations).toEqual(['Bearer access-1', 'Bearer access-2', 'Bearer access-2']);
+
+    server.expiresIn = 3600;
+    server.revoked.push('access-2', 'refresh-2');
+    const response = await session.request({ url: 'https://api.example.com/', responseType: 'json' });
+    expect(response.data).toEqual({ token: 'access-3' });
+    expect(server.tokenRequests.map(({ params }) => params.grant_type)).toEqual([
+      'client_credentials',
+      'refresh_token',
+      'refresh_token',
+      'client_credentials',
+    ]);
+
+    server.revoked.push('access-3', 'access-4');
+    await expect(session.request({ url: 'https://api.example.com/', validateStatus: '2xx' })).rejects.toMatchObject({
+      code: 'ERR_HTTP_STATUS',
+      status: 401,
+    });
+    expect(server.apiAuthorizations.slice(-2)).toEqual(['Bearer access-3', 'Bearer access-4']);
+    await session.release();
+    await testSession.shutdown();
+  });
+
+  it('uses session credentials for the password grant and fails login on token errors', async () => {
+    const server = makeTokenServer();
+    const logs: string[] = [];
+    const log = (message: string, details = '') => logs.push(message + details);
+    const oauth2 = new OAuth2TokenManager(TOKEN_URL, 'client', { grantType: 'password' });
+    const testSession = new HttpSession({
+      login: oauth2.login,
+      middleware: [oauth2.middleware],
+      logger: { debug: log, info: log, warn: log, error: log },
+      _makeHttpsRequest: mockOAuth2HttpRequestFactory(server),
+    });
+    testSession.setCredentials({ username: 'user', password: 'wrong-password' });
+    const error = await testSession.requestSession().catch((err) => err);
+    expect(error).toBeInstanceOf(OAuth2Error);
+    expect(error).toMatchObject({
+      code: 'ERR_OAUTH2_TOKEN',
+      status: 400,
+      error: 'invalid_grant',
+      message: 'Token request failed with status 400: invalid_grant (Bad credentials)',
+    });
+    testSession.setCredentials({ username: 'user', password: 'hunter2' });
+    const session = await testSession.requestSession();
+    expect(server.tokenRequests[1].params).toEqual({ grant_type: 'password', username: 'user', password: 'hunter2' });
+    expect(logs.join('\n')).not.toMatch(/hunter2|wrong-password/);
+    await session.release();
+    await testSession.shutdown();
+
+    expect(() => new OAuth2TokenManager(TOKEN_URL, 'client', { grantType: 'refresh_token' })).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,155 @@
+import type { HttpHeaders, MakeHttpRequest } from '../src/types/http-request';
+import { HttpSession, paginate } from '../src';
+import { mockHandlerHttpRequestFactory } from '../src/lib/mockHttpRequest';
+
+type Route = (url: URL) => [unknown, HttpHeaders?];
+
+function mockPagesHttpRequestFactory(route: Route, urls: string[] = []): MakeHttpRequest {
+  return mockHandlerHttpRequestFactory(({ url }) => {
+    urls.push(url.toString());
+    const [data, headers] = route(new URL(url.toString()));
+    return [200, JSON.stringify(data), { 'content-type': 'application/json', ...headers }];
+  });
+}
+
+const ITEMS = ['a', 'b', 'c', 'd', 'e'];
+
+function sliceItems(url: URL): string[] {
+  const offset = Number(url.searchParams.get('offset') || 0);
+  const limit = Number(url.searchParams.get('limit') || 2);
+  return ITEMS.slice(offset, offset + limit);
+}
+
+async function collect<T>(iterator: AsyncIterableIterator<T>): Promise<T[]> {
+  const output: T[] = [];
+  for await (const value of iterator) output.push(value);
+  return output;
+}
+
+describe('paginate', () => {
+  it('follows Link headers and next URLs in the response body', async () => {
+    const linkRoute: Route = (url) => {
+      const page = Number(url.searchParams.get('page') || 1);
+      const links = ['</items?page=1>; rel="first"'];
+      if (page < 3) links.push(`</items?page=${page + 1}>; rel="prev next"`);
+      return [[`item-${page}`], { link: links.join(', ') }];
+    };
+    const urls: string[] = [];
+    const pages = await collect(
+      paginate(
+        { url: 'https://example.com/items', _request: mockPagesHttpRequestFactory(linkRoute, urls) },
+        { type: 'link' }
+      )
+    );
+    expect(pages.map((page) => page.data)).toEqual([['item-1'], ['item-2'], ['item-3']]);
+    expect(urls).toEqual([
+      'https://example.com/items',
+      'https://example.com/items?page=2',
+      'https://example.com/items?page=3',
+    ]);
+
+    const nextUrlRoute: Route = (url) => {
+      const page = Number(url.searchParams.get('page') || 1);
+      return [{ data: { items: [page * 10, page * 10 + 1] }, links: { next: `?page=${page + 1}` } }];
+    };
+    const items = await collect(
+      paginate(
+        { url: 'https://example.com/items', _request: mockPagesHttpRequestFactory(nextUrlRoute) },
+        { type: 'next-url', path: 'links.next', itemsPath: 'data.items', maxPages: 3 }
+      )
+    );
+    expect(items).toEqual([10, 11, 20, 21, 30, 31]);
+
+    const loopRoute: Route = () => [[], { link: '<https://example.com/items>; rel=next' }];
+    const loopPages = await collect(
+      paginate({ url: 'https://example.com/items', _request: mockPagesHttpRequestFactory(loopRoute) }, { type: 'link' })
+    );
+    expect(loopPages).toHaveLength(1);
+  });
+
+  it('sends cursors, offsets and page numbers as query parameters', async () => {
+    const cursorRoute: Route = (url) => {
+      const cursor = url.searchParams.get('after');
+      return cursor === 'c2' ? [{ items: ['z'], next: null }] : [{ items: ['y'], next: cursor ? 'c2' : 'c1' }];
+    };
+    const cursorUrls: string[] = [];
+    const cursorItems = await collect(
+      paginate(
+        {
+          url: 'https://example.com/items',
+          query: { q: 'x' },
+          _request: mockPagesHttpRequestFactory(cursorRoute, cursorUrls),
+        },
+        { type: 'cursor', path: 'next', param: 'after', itemsPath: 'items' }
+      )
+    );
+    expect(cursorItems).toEqual(['y', 'y', 'z']);
+    expect(cursorUrls).toEqual([
+      'https://example.com/items?q=x',
+      'https://example.com/items?q=x&after=c1',
+      'https://example.com/items?q=x&after=c2',
+    ]);
+
+    const offsetUrls: string[] = [];
+    const offsetPages = await collect(
+      paginate(
+        {
+          url: 'https://example.com/items',
+          _request: mockPagesHttpRequestFactory((url) => [sliceItems(url)], offsetUrls),
+        },
+        { type: 'offset', limit: 2 }
+      )
+    );
+    expect(offsetPages.map((page) => page.data)).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+    expect(offsetUrls[2]).toBe('https://example.com/items?offset=4&limit=2');
+
+    const pageRoute: Route = (url) => {
+      const page = Number(url.searchParams.get('p'));
+      return [{ results: ITEMS.slice(page * 2, page * 2 + 2) }];
+    };
+    const pageUrls: string[] = [];
+    const pageItems = await collect(
+      paginate(
+        { url: 'https://example.com/items', _request: mockPagesHttpRequestFactory(pageRoute, pageUrls) },
+        { type: 'page', param: 'p', start: 0, itemsPath: 'results' }
+      )
+    );
+    expect(pageItems).toEqual(ITEMS);
+    expect(pageUrls).toHaveLength(4);
+
+    const notArray = paginate(
+      { url: 'https://example.com/items', _request: mockPagesHttpRequestFactory(() => [{ results: [] }]) },
+      { type: 'offset', limit: 2 }
+    );
+    await expect(collect(notArray)).rejects.toThrow(TypeError);
+  });
+
+  it('holds the session until the iteration ends or is broken off', async () => {
+    const urls: string[] = [];
+    const testSession = new HttpSession({
+      _makeHttpsRequest: mockPagesHttpRequestFactory((url) => [sliceItems(url)], urls),
+    });
+    let current = { status: '', inQueue: 0 };
+    testSession.onStatus((data) => (current = data));
+    const statuses: string[] = [];
+    for await (const item of testSession.paginate(
+      { url: 'https://example.com/items' },
+      { type: 'offset', limit: 2, itemsPath: '$' }
+    )) {
+      statuses.push(current.status);
+      if (item === 'c') break;
+    }
+    expect(statuses).toEqual(['In Use', 'In Use', 'In Use']);
+    expect(current).toMatchObject({ status: 'Ready', inQueue: 0 });
+    expect(urls).toHaveLength(2);
+
+    const session = await testSession.requestSession();
+    const pages = await collect(session.paginate({ url: 'https://example.com/items' }, { type: 'offset', limit: 2 }));
+    expect(pages).toHaveLength(3);
+    await session.release();
+    expect(() => session.paginate({ url: 'https://example.com/items' }, { type: 'link' })).toThrow(
+      'calling paginate failed because session has already been released'
+    );
+    await testSession.shutdown();
+  });
+});
@@ -0,0 +1,154 @@
+import type { ReplayCassette } from '../src/types/replay';
+import type { MakeHttpRequest } from '../src/types/http-request';
+import { Writable } from 'node:stream';
+import { EventEmitter } from 'node:events';
+import { gzipSync } from 'node:zlib';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { httpRequest, HttpSession, HarRecorder, ReplayTransport } from '../src';
+import { mockHttpRequestFactory } from '../src/lib/mockHttpRequest';
+
+const cassette: ReplayCassette = {
+  version: 1,
+  interactions: [
+    {
+      request: { method: 'POST', url: 'https://example.com/login', body: '{"username":"user"}' },
+      response: {
+        status: 302,
+        statusMessage: 'Found',
+        headers: { location: '/status', 'set-cookie': ['session=abc; Path=/'] },
+        body: '',
+      },
+    },
+    {
+      request: { method: 'GET', url: 'https://example.com/status' },
+      response: { status: 200, statusMessage: 'OK', headers: {}, body: 'pending' },
+    },
+    {
+      request: { method: 'GET', url: 'https://example.com/status' },
+      response: { status: 200, statusMessage: 'OK', headers: {}, body: 'done' },
+    },
+  ],
+};
+
+describe('ReplayTransport', () => {
+  it('replays recorded responses in order including cookies', async () => {
+    const transport = new ReplayTransport(cassette);
+    const session = new HttpSession({ _makeHttpsRequest: transport.request });
+    const { request, release, serialize } = await session.requestSession();
+    const first = await request({
+      url: 'https://example.com/login',
+      method: 'POST',
+      dataType: 'json',
+      data: { username: 'user' },
+    });
+    const second = await request({ url: 'https://example.com/status' });
+    expect(first.data).toBe('pending');
+    expect(second.data).toBe('done');
+    expect(serialize().cookies.map((cookie) => cookie.key)).toEqual(['session']);
+    await expect(request({ url: 'https://example.com/status' })).rejects.toMatchObject({
+      message: 'No recorded response for GET https://example.com/status',
+    });
+    release();
+    await session.shutdown();
+  });
+
+  it('matches requests by body when asked to', async () => {
+    const transport = new ReplayTransport(
+      {
+        version: 1,
+        interactions: [
+          {
+            request: { method: 'POST', url: 'https://example.com/', body: 'a' },
+            response: { status: 200, statusMessage: '', headers: {}, body: 'first' },
+          },
+          {
+            request: { method: 'POST', url: 'https://example.com/', body: 'b' },
+            response: { status: 200, statusMessage: '', headers: {}, body: 'second' },
+          },
+        ],
+      },
+      { matchBody: true }
+    );
+    const response = await httpRequest({
+      url: 'https://example.com/',
+      method: 'POST',
+      data: 'b',
+      _request: transport.request,
+    });
+    expect(response.data).toBe('second');
+  });
+
+  it('replays traffic captured by HarRecorder', async () => {
+    const har = new HarRecorder({ includeBodies: true });
+    await httpRequest({
+      url: 'https://example.com/data',
+      har,
+      _request: mockHttpRequestFactory({
+        returns: gzipSync('{"ok":true}'),
+        statusCode: 200,
+        headers: { 'content-encoding': 'gzip', 'content-type': 'application/json', 'set-cookie': ['a=1', 'b=2'] },
+      }),
+    });
+    const transport = new ReplayTransport(har.getHar());
+    const response = await httpRequest({
+      url: 'https://example.com/data',
+      responseType: 'json',
+      _request: transport.request,
+    });
+    expect(response.data).toEqual({ ok: true });
+    expect(response.headers['set-cookie']).toEqual(['a=1', 'b=2']);
+  });
+
+  it('records traffic on the first run and replays it afterwards', async () => {
+    const filename = path.join(tmpdir(), `http-session-cassette-${process.pid}.json`);
+    const onOptionsReceived = jest.fn();
+    const _makeHttpsRequest = mockHttpRequestFactory({
+      returns: gzipSync('recorded'),
+      statusCode: 200,
+      headers: { 'content-encoding': 'gzip' },
+      onOptionsReceived,
+    });
+    const recorder = await ReplayTransport.fromFile(filename, { mode: 'once', _makeHttpsRequest });
+    const recorded = await httpRequest({ url: 'https://example.com/once', _request: recorder.request });
+    await recorder.save();
+    const player = await ReplayTransport.fromFile(filename, { mode: 'once', _makeHttpsRequest });
+    const replayed = await httpRequest({ url: 'https://example.com/once', _request: player.request });
+    await fs.unlink(filename);
+    expect(recorded.data).toBe('recorded');
+    expect(replayed.data).toBe('recorded');
+    expect(onOptionsReceived).toHaveBeenCalledTimes(1);
+    await expect(ReplayTransport.fromFile(filename)).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('passes socket events, timeouts and aborts through to the request being recorded', async () => {
+    const requests: Writable[] = [];
+    const _makeHttpsRequest: MakeHttpRequest = () => {
+      const request = new Writable({
+        write(_chunk, _enc, done) {
+          done();
+        },
+      });
+      request.on('finish', () => request.emit('socket', Object.assign(new EventEmitter(), { connecting: true })));
+      requests.push(request);
+      return request;
+    };
+    const recorder = new ReplayTransport(null, { mode: 'record', _makeHttpsRequest });
+    await expect(
+      httpRequest({ url: 'https://example.com/', connectTimeout: 20, _request: recorder.request })
+    ).rejects.toMatchObject({ phase: 'connect' });
+    expect(requests[0].destroyed).toBe(true);
+
+    const controller = new AbortController();
+    const aborted = httpRequest({
+      url: 'https://example.com/',
+      abortSignal: controller.signal,
+      _request: recorder.request,
+    });
+    setTimeout(() => controller.abort(), 10);
+    await expect(aborted).rejects.toThrow();
+    expect(requests[1].destroyed).toBe(true);
+    expect(recorder.getCassette().interactions).toHaveLength(0);
+  });
+});